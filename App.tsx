@@ -1,27 +1,109 @@
-import React, { useState, useEffect, useRef } from 'react';
-import yaml from 'js-yaml';
-import { marked } from 'marked';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   FLOWER_THEMES, 
   AVAILABLE_MODELS, 
   DEFAULT_MIND_MAP_DATA, 
+  DEFAULT_MODEL_TARGET,
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  DEFAULT_MODEL_PRICES,
+  DEFAULT_RESPONSE_SCHEMA,
+  BUILT_IN_PROMPT_TEMPLATES,
+  DEFAULT_DOCUMENTS,
   TRANSLATIONS 
 } from './constants';
 import { 
-  MindMapData, 
   AgentConfig, 
   Language, 
   FlowerTheme,
-  LLMProvider
+  LLMProvider,
+  LLMModelInfo,
+  ModelTarget,
+  ChunkProgress,
+  SchedulerConfig,
+  CacheConfig,
+  ModelPrices,
+  UsageRecord,
+  OpenAICompatibleConfig,
+  ProviderSettings,
+  BatchConfig,
+  BatchItemStatus,
+  BatchReport,
+  PromptTemplate,
+  AgentRun,
+  ModelComparison,
+  ModelComparisonEntry,
+  WorkspaceDocument,
+  ClauseComparisonResult,
+  DocumentNarrative,
+  ChatMessage,
+  DocumentChatConfig
 } from './types';
 import { 
   transformToMindMapFormat, 
   compareDocuments, 
+  compareDocumentClauses,
+  answerDocumentQuestion,
   runGeminiAgent,
-  processSmartNote
+  processSmartNote,
+  agentGenerationSettings,
+  runStructuredAgent,
+  runModelComparison,
+  judgeModelOutputs
 } from './services/geminiService';
+import { downloadFile } from './services/exportUtils';
+import { renderMarkdown } from './services/markdown';
+import { combineFiles, ingestFiles, INGEST_ACCEPT } from './services/ingestion';
+import { DEFAULT_CHAT_CONFIG, maxRetrievedChars, retrievePassages } from './services/retrieval';
+import { loadWorkspace, saveWorkspace } from './services/workspaceStore';
+import { DEFAULT_EMBEDDING_MODEL } from './services/embeddings';
+import { buildSemanticMatrix, DocumentSimilarity } from './services/semanticSimilarity';
+import { splitParagraphs } from './services/documentDiff';
+import { validateJson } from './services/jsonSchema';
+import { createHistory, executeCommand, MindMapCommand, MindMapHistory, redo, undo } from './services/mindMapEditor';
+import { buildDocumentContext, estimateContext, selectAgentDocuments } from './services/documents';
+import { buildHtmlReport, buildMarkdownReport } from './services/reportExport';
+import { AgentGraphError, buildDependencies, downstreamLayers, renameAgentReferences, resolveAgentReferences, topologicalLayers } from './services/agentGraph';
+import { configureScheduler, DEFAULT_SCHEDULER_CONFIG } from './services/requestScheduler';
+import { DEFAULT_BATCH_CONFIG, runBatch } from './services/batchRunner';
+import { CancelledError } from './services/errors';
+import { clearAgentRuns, getRuns, recordRun, subscribeRunHistory } from './services/runHistory';
+import { formatIssue, mergeAgents, parseAgentsFile, serializeAgentsFile } from './services/agentsFile';
+import { applyTemplate, describeVariables, renderAgentPrompt, restoreTemplateVersion, saveTemplate } from './services/promptTemplates';
+import { configureCache, DEFAULT_CACHE_CONFIG } from './services/responseCache';
+import {
+  addUsage,
+  configurePrices,
+  EMPTY_USAGE,
+  estimateRunCost,
+  getUsageRecords,
+  resetUsage,
+  subscribeUsage,
+  summarizeUsage
+} from './services/usageTracker';
 import MindMap from './components/MindMap';
 import LuckyWheel from './components/LuckyWheel';
+import ModelSelect from './components/ModelSelect';
+import ModelSettings from './components/ModelSettings';
+import ErrorBanner from './components/ErrorBanner';
+import CacheSettings from './components/CacheSettings';
+import UsageBadge, { formatCost } from './components/UsageBadge';
+import UsageDashboard from './components/UsageDashboard';
+import UsageSettings from './components/UsageSettings';
+import GenerationSettingsEditor from './components/GenerationSettingsEditor';
+import SchemaEditor from './components/SchemaEditor';
+import JsonResultView from './components/JsonResultView';
+import BatchProgress, { STATUS_STYLES } from './components/BatchProgress';
+import TemplatePicker from './components/TemplatePicker';
+import PromptVariablesForm from './components/PromptVariablesForm';
+import RunHistoryDrawer from './components/RunHistoryDrawer';
+import ModelComparisonSettings from './components/ModelComparisonSettings';
+import ModelComparisonView from './components/ModelComparisonView';
+import CopyButton from './components/CopyButton';
+import DocumentLibrary from './components/DocumentLibrary';
+import DocumentComparePanel from './components/DocumentComparePanel';
+import FileDropZone from './components/FileDropZone';
+import DocumentChatPanel from './components/DocumentChatPanel';
+import DocumentContextPicker from './components/DocumentContextPicker';
 import { 
   Settings, 
   Upload, 
@@ -32,44 +114,79 @@ import {
   Moon, 
   Palette,
   Network,
-  FileText,
   X,
   Save,
   Download,
   NotebookPen,
   Highlighter,
-  Wand2
+  Wand2,
+  Square,
+  BarChart3,
+  AlertTriangle,
+  History,
+  FileDown
 } from 'lucide-react';
 
+type AbortKey = number | 'smartnote' | 'comparison' | 'clauses' | 'similarity' | 'chat';
+
+// The initial, empty chat; the saved workspace only replaces it while it is still this array
+const NO_MESSAGES: ChatMessage[] = [];
+
 const App: React.FC = () => {
   // --- State ---
   const [lang, setLang] = useState<Language>('en');
   const [theme, setTheme] = useState<FlowerTheme>(FLOWER_THEMES[0]);
   const [darkMode, setDarkMode] = useState(true);
   const [apiKey, setApiKey] = useState('');
+  const [openAIConfig, setOpenAIConfig] = useState<OpenAICompatibleConfig>(DEFAULT_OPENAI_COMPATIBLE_CONFIG);
+  const [customModels, setCustomModels] = useState<LLMModelInfo[]>([]);
+  const [defaultModel, setDefaultModel] = useState<ModelTarget>(DEFAULT_MODEL_TARGET);
+  const [schedulerConfig, setSchedulerConfig] = useState<SchedulerConfig>(DEFAULT_SCHEDULER_CONFIG);
+  const [cacheConfig, setCacheConfig] = useState<CacheConfig>(DEFAULT_CACHE_CONFIG);
+  const [modelPrices, setModelPrices] = useState<ModelPrices>(DEFAULT_MODEL_PRICES);
+  const [budget, setBudget] = useState<number | null>(null);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(getUsageRecords());
   const [showSettings, setShowSettings] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
   const [showWheel, setShowWheel] = useState(false);
   const [activeTab, setActiveTab] = useState<'mindmap' | 'analysis' | 'smartnote'>('mindmap');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | string | null>(null);
 
   // Mind Map
   const [mmInput, setMmInput] = useState('');
-  const [mmData, setMmData] = useState<MindMapData>(DEFAULT_MIND_MAP_DATA);
+  const [mmHistory, setMmHistory] = useState<MindMapHistory>(() => createHistory(DEFAULT_MIND_MAP_DATA));
+  const mmData = mmHistory.present;
+  // Latest history for edits fired from the map's event handlers, which outlive renders
+  const mmHistoryRef = useRef(mmHistory);
+  mmHistoryRef.current = mmHistory;
+  // Edits, undo and redo all step from the ref, so several in one event build on each other
+  const updateMindMapHistory = (step: (history: MindMapHistory) => MindMapHistory) => {
+    const next = step(mmHistoryRef.current);
+    mmHistoryRef.current = next;
+    setMmHistory(next);
+  };
+  const [mmProgress, setMmProgress] = useState<ChunkProgress | null>(null);
+  const [mmBypassCache, setMmBypassCache] = useState(false);
 
   // Analysis
-  const [doc1, setDoc1] = useState('');
-  const [doc2, setDoc2] = useState('');
+  const [documents, setDocuments] = useState<WorkspaceDocument[]>(DEFAULT_DOCUMENTS);
   const [agents, setAgents] = useState<AgentConfig[]>([{
     id: 1,
     name: 'Analyst 1',
     prompt: 'Summarize the key points.',
+    provider: LLMProvider.GEMINI,
     model: 'gemini-2.5-flash',
     maxTokens: 500,
     temperature: 0.7,
-    contextType: 'both',
+    documentIds: DEFAULT_DOCUMENTS.map(doc => doc.id),
     isLoading: false
   }]);
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>([]);
+  const [runs, setRuns] = useState<AgentRun[]>(getRuns());
+  const [historyAgentId, setHistoryAgentId] = useState<number | null>(null);
+  const [comparisons, setComparisons] = useState<Record<number, ModelComparison>>({});
+  const [mergeImport, setMergeImport] = useState(false); // Append loaded agents instead of replacing
 
   // Smart Note
   const [noteInput, setNoteInput] = useState('');
@@ -77,6 +194,40 @@ const App: React.FC = () => {
   const [highlightKeyword, setHighlightKeyword] = useState('');
   const [highlightColor, setHighlightColor] = useState('#fde047'); // Default yellow
   const [renderHtml, setRenderHtml] = useState('');
+  const [noteIncomplete, setNoteIncomplete] = useState(false);
+  const [noteProgress, setNoteProgress] = useState<ChunkProgress | null>(null);
+  const [noteBypassCache, setNoteBypassCache] = useState(false);
+
+  // AI narrative next to the local document diff
+  const [compareNarrative, setCompareNarrative] = useState<DocumentNarrative | null>(null);
+  const [compareProgress, setCompareProgress] = useState<ChunkProgress | null>(null);
+  const [compareLoading, setCompareLoading] = useState(false);
+  const [clauseResult, setClauseResult] = useState<ClauseComparisonResult | null>(null);
+  const [clausesLoading, setClausesLoading] = useState(false);
+  const [similarity, setSimilarity] = useState<DocumentSimilarity | null>(null);
+  const [similarityLoading, setSimilarityLoading] = useState(false);
+
+  // Questions over the workspace documents
+  const [chat, setChat] = useState<ChatMessage[]>(NO_MESSAGES);
+  const [chatConfig, setChatConfig] = useState<DocumentChatConfig>(DEFAULT_CHAT_CONFIG);
+  const [chatLoading, setChatLoading] = useState(false);
+  const [embeddingModel, setEmbeddingModel] = useState<ModelTarget>(DEFAULT_EMBEDDING_MODEL);
+  const [workspaceLoaded, setWorkspaceLoaded] = useState(false);
+
+  // Batch runs of several agents
+  const [batchConfig, setBatchConfig] = useState<BatchConfig>(DEFAULT_BATCH_CONFIG);
+  const [batchStatus, setBatchStatus] = useState<Record<number, BatchItemStatus> | null>(null);
+  // Names being typed; applied on blur so references are only rewritten once
+  const [nameDrafts, setNameDrafts] = useState<Record<number, string>>({});
+  const [batchReport, setBatchReport] = useState<BatchReport | null>(null);
+  const batchController = useRef<AbortController | null>(null);
+
+  // In-flight requests that the user can stop, keyed by agent id or feature
+  const abortControllers = useRef(new Map<AbortKey, AbortController>());
+
+  // Latest agents for long-running batches, whose closures would otherwise see a stale list
+  const agentsRef = useRef(agents);
+  agentsRef.current = agents;
 
   // --- Effects ---
   useEffect(() => {
@@ -89,6 +240,57 @@ const App: React.FC = () => {
     else root.classList.remove('dark');
   }, [theme, darkMode]);
 
+  useEffect(() => {
+    configureScheduler(schedulerConfig);
+  }, [schedulerConfig]);
+
+  useEffect(() => {
+    configureCache(cacheConfig);
+  }, [cacheConfig]);
+
+  useEffect(() => {
+    configurePrices(modelPrices);
+  }, [modelPrices]);
+
+  useEffect(() => subscribeUsage(setUsageRecords), []);
+
+  useEffect(() => subscribeRunHistory(setRuns), []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) edit the mind map, except while typing in a field
+  useEffect(() => {
+    if (activeTab !== 'mindmap') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) updateMindMapHistory(undo);
+      else if ((key === 'z' && e.shiftKey) || key === 'y') updateMindMapHistory(redo);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [activeTab]);
+
+  // Restore the saved workspace once; saving only starts afterwards so the defaults never overwrite it.
+  // Whatever the user changed before the load finished is kept rather than replaced.
+  useEffect(() => {
+    loadWorkspace()
+      .then(saved => {
+        if (!saved) return;
+        setDocuments(current => current === DEFAULT_DOCUMENTS ? saved.documents : current);
+        setChat(current => current === NO_MESSAGES ? saved.chat : current);
+      })
+      .catch(setError)
+      .finally(() => setWorkspaceLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!workspaceLoaded) return;
+    const timer = setTimeout(() => saveWorkspace({ documents, chat }).catch(setError), 500);
+    return () => clearTimeout(timer);
+  }, [documents, chat, workspaceLoaded]);
+
   useEffect(() => {
     // Smart Note Renderer
     if (!noteOutput) {
@@ -97,8 +299,8 @@ const App: React.FC = () => {
     }
 
     try {
-      // 1. Parse Markdown to HTML
-      let html = marked.parse(noteOutput) as string;
+      // 1. Parse Markdown to sanitized HTML
+      let html = renderMarkdown(noteOutput);
 
       // 2. Apply Highlighting (Regex on text content within HTML is tricky, simpler to replace safe strings)
       // A safe way is to replace after parsing, but avoid tags.
@@ -118,91 +320,445 @@ const App: React.FC = () => {
 
   const t = (key: string) => TRANSLATIONS[key]?.[lang] || key;
 
+  const startAbortable = (key: AbortKey) => {
+    const controller = new AbortController();
+    abortControllers.current.set(key, controller);
+    return controller;
+  };
+
+  const stopRun = (key: AbortKey) => abortControllers.current.get(key)?.abort();
+
+  const models: LLMModelInfo[] = useMemo(() => [...AVAILABLE_MODELS, ...customModels], [customModels]);
+  const providerSettings: ProviderSettings = {
+    geminiApiKey: apiKey,
+    openAICompatible: openAIConfig,
+    defaultModel
+  };
+
+  const sessionUsage = summarizeUsage(usageRecords);
+
+  // Asks for confirmation when the worst-case cost of a run would push the session over budget
+  const confirmWithinBudget = (estimatedCost: number) => {
+    if (budget === null || sessionUsage.cost + estimatedCost <= budget) return true;
+    return window.confirm(`${t('budgetWarning')}\n\n${formatCost(sessionUsage.cost)} + ~${formatCost(estimatedCost)} > ${formatCost(budget)}`);
+  };
+
+  const buildAgentContext = (agent: AgentConfig) => {
+    return buildDocumentContext(selectAgentDocuments(agent, documents));
+  };
+
+  // Building the context joins every selected document, so it is only redone when they or the agents change
+  const contextEstimates = useMemo(
+    () => new Map(agents.map(agent => [agent.id, estimateContext(agent, buildAgentContext(agent), models)])),
+    [agents, documents, models]
+  );
+
+  const estimateAgentCost = (agent: AgentConfig) =>
+    estimateRunCost({ provider: agent.provider, model: agent.model }, agent.prompt.length + buildAgentContext(agent).length, agent.maxTokens);
+
   // --- Handlers ---
 
+  // Extracts text from uploaded or dropped files; several files are combined into one input
+  const loadFiles = async (files: File[], setter: (s: string) => void) => {
+    if (files.length === 0) return;
+    const result = await ingestFiles(files);
+    if (result.files.length > 0) setter(combineFiles(result.files));
+    if (result.errors.length > 0) setError(result.errors.map(err => err.message).join('\n'));
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, setter: (s: string) => void) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (evt) => setter(evt.target?.result as string);
-    reader.readAsText(file);
+    loadFiles([...(e.target.files || [])], setter);
+    e.target.value = '';
+  };
+
+  // Every change to the map goes through the undo history
+  const editMindMap = (command: MindMapCommand) => {
+    try {
+      updateMindMapHistory(history => executeCommand(history, command));
+    } catch (err: any) {
+      setError(err);
+    }
   };
 
   const handleGenerateMindMap = async () => {
     if (!mmInput) return;
+    // Graph JSON rarely exceeds a few thousand tokens per chunk
+    if (!confirmWithinBudget(estimateRunCost(defaultModel, mmInput.length, 4096))) return;
     setLoading(true);
     setError(null);
     try {
-      const data = await transformToMindMapFormat(mmInput, apiKey);
-      setMmData(data);
+      const data = await transformToMindMapFormat(mmInput, providerSettings, {
+        onProgress: setMmProgress,
+        bypassCache: mmBypassCache
+      });
+      editMindMap({ type: 'replace', data, label: 'Generate mind map' });
     } catch (err: any) {
-      setError(err.message);
+      setError(err);
     } finally {
       setLoading(false);
     }
   };
 
   // Agents Logic
-  const handleRunAgent = async (id: number) => {
-    const agent = agents.find(a => a.id === id);
-    if (!agent) return;
+  const outputsByName = (list: AgentConfig[]) =>
+    Object.fromEntries(list.map(a => [a.name, a.output])) as Record<string, string | undefined>;
 
-    setAgents(prev => prev.map(a => a.id === id ? { ...a, isLoading: true, output: '' } : a));
-    setError(null);
+  /**
+   * Runs one agent with `upstream` outputs substituted for its `{{agent:Name}}` references
+   * and resolves to its output. Rejects when the run fails or is stopped.
+   */
+  const executeAgent = async (id: number, upstream: Record<string, string | undefined>): Promise<string> => {
+    // Read the latest config so edits made while a batch is running are not lost
+    const agent = agentsRef.current.find(a => a.id === id);
+    if (!agent) throw new Error('The agent was removed.');
+    const prompt = resolveAgentReferences(renderAgentPrompt(agent), upstream);
+
+    setAgents(prev => prev.map(a => a.id === id ? {
+      ...a,
+      isLoading: true,
+      output: '',
+      incomplete: false,
+      usage: EMPTY_USAGE,
+      jsonOutput: undefined,
+      validationErrors: undefined,
+      repairedFrom: undefined
+    } : a));
+    const controller = startAbortable(id);
+    const target = { provider: agent.provider, model: agent.model };
+    const context = buildAgentContext(agent);
+    const startedAt = Date.now();
+    let usage = EMPTY_USAGE;
+    let partialOutput = '';
+    const runOptions = {
+      signal: controller.signal,
+      onText: (partial: string) => {
+        partialOutput = partial;
+        setAgents(prev => prev.map(a => a.id === id ? { ...a, output: partial } : a));
+      },
+      bypassCache: agent.bypassCache,
+      onUsage: (record: UsageRecord) => {
+        usage = addUsage(usage, record);
+        setAgents(prev => prev.map(a => a.id === id ? { ...a, usage: addUsage(a.usage || EMPTY_USAGE, record) } : a));
+      }
+    };
+    // Every run is kept for the history drawer, whatever its outcome
+    const record = (status: AgentRun['status'], output: string, error?: string) => recordRun({
+      agentId: id,
+      agentName: agent.name,
+      prompt,
+      provider: agent.provider,
+      model: agent.model,
+      generation: agentGenerationSettings(agent),
+      outputMode: agent.outputMode || 'text',
+      timestamp: startedAt,
+      durationMs: Date.now() - startedAt,
+      status,
+      output,
+      error,
+      usage
+    }, context).catch(setError); // Hashing the context needs crypto.subtle, missing outside secure contexts
 
     try {
-      let context = '';
-      if (agent.contextType === 'doc1') context = doc1;
-      else if (agent.contextType === 'doc2') context = doc2;
-      else context = `Document 1:\n${doc1}\n\nDocument 2:\n${doc2}`;
+      if (agent.outputMode === 'json') {
+        const result = await runStructuredAgent(
+          prompt,
+          target,
+          agentGenerationSettings(agent),
+          context,
+          agent.responseSchema || DEFAULT_RESPONSE_SCHEMA,
+          providerSettings,
+          runOptions
+        );
+        setAgents(prev => prev.map(a => a.id === id ? {
+          ...a,
+          isLoading: false,
+          output: result.raw,
+          jsonOutput: result.data,
+          validationErrors: result.errors,
+          repairedFrom: result.repairedFrom
+        } : a));
+        record('done', result.raw);
+        return result.raw;
+      }
 
       const result = await runGeminiAgent(
-        agent.prompt,
-        agent.model,
-        agent.maxTokens,
+        prompt,
+        target,
+        agentGenerationSettings(agent),
         context,
-        apiKey
+        providerSettings,
+        runOptions
       );
 
       setAgents(prev => prev.map(a => a.id === id ? { ...a, isLoading: false, output: result } : a));
+      record('done', result);
+      return result;
     } catch (err: any) {
-      setError(err.message);
-      setAgents(prev => prev.map(a => a.id === id ? { ...a, isLoading: false } : a));
+      // A stopped run keeps whatever was streamed so far
+      const aborted = controller.signal.aborted;
+      record(aborted ? 'stopped' : 'failed', partialOutput, aborted ? undefined : err?.message || String(err));
+      setAgents(prev => prev.map(a => a.id === id ? { ...a, isLoading: false, incomplete: aborted } : a));
+      throw aborted ? new CancelledError('The run was stopped.') : err;
+    } finally {
+      abortControllers.current.delete(id);
+    }
+  };
+
+  // Runs agents concurrently, each as soon as the agents it references are done.
+  // `outputs` seeds the references to agents outside the batch.
+  const runAgentBatch = async (ids: number[], outputs: Record<string, string | undefined>) => {
+    const nameOf = (id: number) => agentsRef.current.find(a => a.id === id)?.name || '';
+    const controller = new AbortController();
+    batchController.current = controller;
+    setBatchReport(null);
+    setBatchStatus(Object.fromEntries(ids.map(id => [id, 'queued'])));
+
+    const report = await runBatch(ids, async (id, signal) => {
+      const stop = () => stopRun(id);
+      signal.addEventListener('abort', stop, { once: true });
+      try {
+        outputs[nameOf(id)] = await executeAgent(id, { ...outputs });
+      } finally {
+        signal.removeEventListener('abort', stop);
+      }
+    }, batchConfig, {
+      dependsOn: buildDependencies(agentsRef.current).dependsOn,
+      onStatus: (id, status) => setBatchStatus(prev => ({ ...prev, [id]: status })),
+      signal: controller.signal
+    });
+
+    batchController.current = null;
+    setBatchReport(report);
+  };
+
+  const handleRunAgent = async (id: number) => {
+    const agent = agents.find(a => a.id === id);
+    if (!agent) return;
+    if (!confirmWithinBudget(estimateAgentCost(agent))) return;
+    setError(null);
+
+    let output: string;
+    try {
+      output = await executeAgent(id, outputsByName(agents));
+    } catch (err: any) {
+      if (!(err instanceof CancelledError)) setError(err);
+      return;
+    }
+
+    // Agents that consume this output are stale once it changes
+    if (output === agent.output) return;
+    try {
+      const downstream = downstreamLayers(id, agents).flat();
+      if (downstream.length === 0) return;
+      // A running batch owns the batch status and stop button; its agents see the new output when they start
+      if (batchController.current) {
+        setError(t('downstreamSkipped'));
+        return;
+      }
+      const estimate = downstream.reduce((sum, a) => sum + estimateAgentCost(a), 0);
+      if (!confirmWithinBudget(estimate)) return;
+      await runAgentBatch(downstream.map(a => a.id), { ...outputsByName(agents), [agent.name]: output });
+    } catch (err: any) {
+      setError(err);
     }
   };
 
   const handleRunAllAgents = async () => {
-    for (const agent of agents) {
-      await handleRunAgent(agent.id);
+    if (batchController.current) return;
+    try {
+      topologicalLayers(agents);
+    } catch (err: any) {
+      setError(err);
+      return;
+    }
+    const estimate = agents.reduce((sum, agent) => sum + estimateAgentCost(agent), 0);
+    if (!confirmWithinBudget(estimate)) return;
+    setError(null);
+    await runAgentBatch(agents.map(a => a.id), outputsByName(agents));
+  };
+
+  const stopAllAgents = () => batchController.current?.abort();
+
+  const exportReport = async (format: 'md' | 'html') => {
+    const report = {
+      title: 'Document Analysis Report',
+      documents,
+      agents
+    };
+    try {
+      if (format === 'md') downloadFile(await buildMarkdownReport(report), 'analysis-report.md', 'text/markdown');
+      else downloadFile(await buildHtmlReport(report), 'analysis-report.html', 'text/html');
+    } catch (err: any) {
+      setError(err);
+    }
+  };
+
+  // Fans the agent's prompt out to every comparison model, then lets the judge score the outputs
+  const handleCompareModels = async (id: number) => {
+    const agent = agents.find(a => a.id === id);
+    const config = agent?.comparison;
+    if (!agent || !config || config.targets.length === 0) return;
+    const inputChars = agent.prompt.length + buildAgentContext(agent).length;
+    const runsCost = config.targets.reduce((sum, target) => sum + estimateRunCost(target, inputChars, agent.maxTokens), 0);
+    // The judge reads the task and every full-length answer, at about four characters per token
+    const judgeCost = config.judge
+      ? estimateRunCost(config.judge, inputChars + (config.rubric?.length || 0) + config.targets.length * agent.maxTokens * 4, 2048)
+      : 0;
+    if (!confirmWithinBudget(runsCost + judgeCost)) return;
+    setError(null);
+
+    const context = buildAgentContext(agent);
+    const generation = agentGenerationSettings(agent);
+    const schema = agent.outputMode === 'json' ? agent.responseSchema || DEFAULT_RESPONSE_SCHEMA : undefined;
+    const update = (fn: (c: ModelComparison) => ModelComparison) =>
+      setComparisons(prev => ({ ...prev, [id]: fn(prev[id] || { entries: [] }) }));
+
+    setComparisons(prev => ({ ...prev, [id]: { entries: [] } }));
+    setAgents(prev => prev.map(a => a.id === id ? { ...a, isLoading: true, output: '', jsonOutput: undefined, validationErrors: undefined } : a));
+    const controller = startAbortable(id);
+    try {
+      const prompt = resolveAgentReferences(renderAgentPrompt(agent), outputsByName(agents));
+      const startedAt = Date.now();
+      const entries = await runModelComparison(prompt, config.targets, generation, context, schema, providerSettings, {
+        signal: controller.signal,
+        bypassCache: agent.bypassCache,
+        onEntry: (index, entry) => update(c => {
+          const next = [...c.entries];
+          next[index] = entry;
+          return { ...c, entries: next };
+        })
+      });
+
+      // Each model's answer is a run of its own, so the history drawer can diff them
+      entries.forEach(entry => recordRun({
+        agentId: id,
+        agentName: agent.name,
+        prompt,
+        provider: entry.target.provider,
+        model: entry.target.model,
+        generation,
+        outputMode: agent.outputMode || 'text',
+        timestamp: startedAt,
+        durationMs: entry.latencyMs ?? 0,
+        status: entry.status === 'done' ? 'done' : 'failed',
+        output: entry.output,
+        error: entry.error,
+        usage: entry.usage
+      }, context).catch(setError));
+
+      const done = entries.filter(e => e.status === 'done');
+      if (done.length === 1) adoptComparisonOutput(id, done[0]);
+      if (config.judge && done.length > 1) {
+        update(c => ({ ...c, judging: true }));
+        try {
+          const verdict = await judgeModelOutputs(prompt, context, entries, config.rubric, config.judge, providerSettings, { signal: controller.signal });
+          update(c => ({ ...c, judging: false, verdict }));
+          const winner = verdict.winner && done.find(e => e.target.provider === verdict.winner!.provider && e.target.model === verdict.winner!.model);
+          if (winner) adoptComparisonOutput(id, winner);
+        } catch (err: any) {
+          update(c => ({ ...c, judging: false, judgeError: controller.signal.aborted ? 'stopped' : err.message }));
+        }
+      }
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(err);
+    } finally {
+      abortControllers.current.delete(id);
+      setAgents(prev => prev.map(a => a.id === id ? { ...a, isLoading: false } : a));
+    }
+  };
+
+  // The chosen or winning answer becomes the agent's output, so references and reports use it
+  const adoptComparisonOutput = (id: number, entry: ModelComparisonEntry) => {
+    const agent = agentsRef.current.find(a => a.id === id);
+    let json: { data?: unknown; errors?: string[] } = {};
+    if (agent?.outputMode === 'json') {
+      try {
+        const data = JSON.parse(entry.output);
+        json = { data, errors: validateJson(data, agent.responseSchema || DEFAULT_RESPONSE_SCHEMA) };
+      } catch (err: any) {
+        json = { errors: [`Invalid JSON: ${err.message}`] };
+      }
     }
+    setAgents(prev => prev.map(a => a.id === id ? {
+      ...a,
+      output: entry.output,
+      jsonOutput: json.data,
+      validationErrors: json.errors,
+      repairedFrom: undefined,
+      incomplete: false,
+      usage: entry.usage
+    } : a));
+    setComparisons(prev => prev[id] ? { ...prev, [id]: { ...prev[id], chosen: entry.target } } : prev);
+  };
+
+  // The first free "Analyst n", since deleting agents leaves gaps in the numbering
+  const nextAgentName = (existing: AgentConfig[]) => {
+    let n = existing.length + 1;
+    while (existing.some(a => a.name.trim().toLowerCase() === `analyst ${n}`)) n++;
+    return `Analyst ${n}`;
+  };
+
+  // Renames keep `{{agent:Name}}` references in every prompt pointing at the agent
+  const commitAgentName = (agent: AgentConfig) => {
+    const draft = nameDrafts[agent.id];
+    setNameDrafts(({ [agent.id]: _, ...rest }) => rest);
+    if (draft === undefined) return;
+    const name = draft.trim();
+    if (!name || name === agent.name) return;
+    if (agents.some(a => a.id !== agent.id && a.name.trim().toLowerCase() === name.toLowerCase())) {
+      setError(`Another agent is already named "${name}".`);
+      return;
+    }
+    setAgents(prev => prev.map(a => ({
+      ...a,
+      name: a.id === agent.id ? name : a.name,
+      prompt: renameAgentReferences(a.prompt, agent.name, name),
+    })));
+  };
+
+  const handleSaveTemplate = (agent: AgentConfig) => {
+    const current = userTemplates.find(tpl => tpl.id === agent.templateId);
+    const name = window.prompt('Template name', current?.name || agent.name)?.trim();
+    if (!name) return;
+    const result = saveTemplate(userTemplates, name, agent.prompt, describeVariables(agent.prompt, agent.variables));
+    setUserTemplates(result.templates);
+    setAgents(prev => prev.map(a => a.id === agent.id ? {
+      ...a,
+      templateId: result.saved.id,
+      templateVersion: result.saved.version,
+      variables: result.saved.variables
+    } : a));
+  };
+
+  // The restored version becomes the template's latest and the agent switches to it
+  const handleRestoreTemplateVersion = (agent: AgentConfig, templateId: string, version: number) => {
+    const result = restoreTemplateVersion(userTemplates, templateId, version);
+    if (!result) return;
+    setUserTemplates(result.templates);
+    setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, ...applyTemplate(a, result.saved) } : a));
   };
 
+  // Saved templates travel in the same file as the agents that use them
   const downloadAgents = () => {
-    const yamlStr = yaml.dump(agents);
-    const blob = new Blob([yamlStr], { type: 'text/yaml' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'agents.yaml';
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(serializeAgentsFile(agents, userTemplates), 'agents.yaml', 'text/yaml');
   };
 
   const uploadAgents = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    e.target.value = ''; // Allow loading the same file again after fixing it
     const reader = new FileReader();
     reader.onload = (evt) => {
       try {
-        const loaded = yaml.load(evt.target?.result as string) as AgentConfig[];
-        if (Array.isArray(loaded)) {
-          setAgents(loaded);
-          setError(null);
-        } else {
-          setError("Invalid YAML format: Expected a list of agents.");
-        }
+        const loaded = parseAgentsFile(evt.target?.result as string, models);
+        const missing = [...new Set(loaded.agents.flatMap(a => a.documentIds).filter(id => !documents.some(doc => doc.id === id)))];
+        if (missing.length > 0) loaded.warnings.push({ message: `Agents refer to documents not in this workspace: ${missing.join(', ')}` });
+        setAgents(prev => mergeImport ? mergeAgents(prev, loaded.agents) : loaded.agents);
+        // Imported templates replace saved ones with the same id
+        setUserTemplates(prev => [...prev.filter(tpl => !loaded.templates.some(i => i.id === tpl.id)), ...loaded.templates]);
+        setError(loaded.warnings.length > 0 ? `Agents loaded with warnings:\n${loaded.warnings.map(formatIssue).join('\n')}` : null);
       } catch (err: any) {
-        setError(`Failed to parse YAML: ${err.message}`);
+        setError(err);
       }
     };
     reader.readAsText(file);
@@ -211,31 +767,156 @@ const App: React.FC = () => {
   // Smart Note Logic
   const handleProcessSmartNote = async () => {
     if (!noteInput) return;
+    // The note repeats the whole input plus summary, entities and questions
+    if (!confirmWithinBudget(estimateRunCost(defaultModel, noteInput.length, Math.ceil(noteInput.length / 4) + 4096))) return;
     setLoading(true);
     setError(null);
+    setNoteOutput('');
+    setNoteIncomplete(false);
+    const controller = startAbortable('smartnote');
     try {
-      const result = await processSmartNote(noteInput, apiKey);
+      const result = await processSmartNote(noteInput, providerSettings, {
+        signal: controller.signal,
+        onText: setNoteOutput,
+        onProgress: setNoteProgress,
+        bypassCache: noteBypassCache
+      });
       setNoteOutput(result);
     } catch (err: any) {
-      setError(err.message);
+      if (controller.signal.aborted) setNoteIncomplete(true);
+      else setError(err);
     } finally {
+      abortControllers.current.delete('smartnote');
       setLoading(false);
     }
   };
 
+  const handleCompareNarrative = async (before: WorkspaceDocument, after: WorkspaceDocument) => {
+    const inputChars = before.text.length + after.text.length;
+    if (!confirmWithinBudget(estimateRunCost(defaultModel, inputChars, 4096))) return;
+    setCompareLoading(true);
+    setError(null);
+    const setText = (text: string) => setCompareNarrative({ beforeId: before.id, afterId: after.id, text });
+    setText('');
+    setCompareProgress(null);
+    const controller = startAbortable('comparison');
+    try {
+      const result = await compareDocuments(before.text, after.text, providerSettings, {
+        signal: controller.signal,
+        onText: setText,
+        onProgress: setCompareProgress
+      });
+      setText(result);
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(err);
+    } finally {
+      abortControllers.current.delete('comparison');
+      setCompareLoading(false);
+    }
+  };
+
+  const handleCompareClauses = async (before: WorkspaceDocument, after: WorkspaceDocument) => {
+    const inputChars = before.text.length + after.text.length;
+    if (!confirmWithinBudget(estimateRunCost(defaultModel, inputChars, 8192))) return;
+    setClausesLoading(true);
+    setError(null);
+    const controller = startAbortable('clauses');
+    try {
+      const clauses = await compareDocumentClauses(before.text, after.text, providerSettings, { signal: controller.signal });
+      setClauseResult({ beforeId: before.id, afterId: after.id, clauses });
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(err);
+    } finally {
+      abortControllers.current.delete('clauses');
+      setClausesLoading(false);
+    }
+  };
+
+  const handleSemanticSimilarity = async (before: WorkspaceDocument, after: WorkspaceDocument) => {
+    if (!confirmWithinBudget(estimateRunCost(embeddingModel, before.text.length + after.text.length, 0))) return;
+    setSimilarityLoading(true);
+    setError(null);
+    const controller = startAbortable('similarity');
+    try {
+      const matrix = await buildSemanticMatrix(splitParagraphs(before.text), splitParagraphs(after.text), embeddingModel, providerSettings, controller.signal);
+      setSimilarity({ ...matrix, beforeId: before.id, afterId: after.id });
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(err);
+    } finally {
+      abortControllers.current.delete('similarity');
+      setSimilarityLoading(false);
+    }
+  };
+
+  const handleAskDocuments = async (question: string) => {
+    // With embeddings every passage may need embedding; already embedded ones are free, so this is an upper bound
+    const embeddingCost = chatConfig.useEmbeddings
+      ? estimateRunCost(embeddingModel, documents.reduce((sum, doc) => sum + doc.text.length, question.length), 0)
+      : 0;
+    if (!confirmWithinBudget(embeddingCost + estimateRunCost(defaultModel, maxRetrievedChars(chatConfig) + question.length, 2048))) return;
+    const now = Date.now();
+    const answerId = `${now}-answer`;
+    const history = chat;
+    setChat([...history, { id: `${now}-question`, role: 'user', text: question, createdAt: now }, { id: answerId, role: 'assistant', text: '', createdAt: now }]);
+    const updateAnswer = (patch: Partial<ChatMessage>) => setChat(prev => prev.map(m => m.id === answerId ? { ...m, ...patch } : m));
+
+    setChatLoading(true);
+    setError(null);
+    const controller = startAbortable('chat');
+    let answered = false;
+    try {
+      const passages = await retrievePassages(question, documents, chatConfig, embeddingModel, providerSettings, controller.signal);
+      if (passages.length === 0) {
+        updateAnswer({ text: t('chatNoPassages'), passages: [] });
+        return;
+      }
+      updateAnswer({ passages });
+      const text = await answerDocumentQuestion(question, passages, history, providerSettings, {
+        signal: controller.signal,
+        onText: (partial) => {
+          answered = true;
+          updateAnswer({ text: partial });
+        }
+      });
+      updateAnswer({ text });
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        if (!answered) updateAnswer({ error: 'Stopped.' });
+      } else {
+        updateAnswer({ error: err?.message || String(err) });
+        setError(err);
+      }
+    } finally {
+      abortControllers.current.delete('chat');
+      setChatLoading(false);
+    }
+  };
+
   const downloadSmartNote = () => {
     if (!noteOutput) return;
-    const blob = new Blob([noteOutput], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'smart-note.md';
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(noteOutput, 'smart-note.md', 'text/markdown');
   };
 
   // --- Render Helpers ---
 
+  const renderBypassToggle = (checked: boolean, onChange: (checked: boolean) => void) => (
+    <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer select-none" title="Call the model even if an identical request is cached">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-primary" />
+      {t('bypassCache')}
+    </label>
+  );
+
+  // Long inputs are processed in chunks; show how many so nothing is dropped silently
+  const renderChunkBadge = (progress: ChunkProgress | null) => {
+    if (!progress || progress.total <= 1) return null;
+    const done = progress.completed >= progress.total;
+    return (
+      <span className="text-xs font-semibold px-2 py-1 rounded-full bg-primary/10 text-primary" title="Input was split into chunks and the results merged">
+        {done ? `${progress.total} chunks processed` : `Chunk ${progress.completed + 1}/${progress.total}`}
+      </span>
+    );
+  };
+
   const renderHeader = () => (
     <header className="sticky top-0 z-50 bg-surface/80 backdrop-blur-md border-b border-white/10 dark:border-gray-800 shadow-sm transition-colors duration-300">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
@@ -256,6 +937,15 @@ const App: React.FC = () => {
             <span className="absolute top-0 right-0 w-2 h-2 bg-primary rounded-full animate-ping"></span>
           </button>
           
+          <button
+            onClick={() => setShowUsage(true)}
+            className="flex items-center gap-1 px-2 py-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors text-sm text-gray-600 dark:text-gray-300"
+            title={t('sessionUsage')}
+          >
+            <BarChart3 className={`w-5 h-5 ${budget !== null && sessionUsage.cost >= budget * 0.8 ? 'text-amber-500' : ''}`} />
+            <span className="font-mono text-xs hidden sm:inline">{formatCost(sessionUsage.cost)}</span>
+          </button>
+
           <button onClick={() => setDarkMode(!darkMode)} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors">
             {darkMode ? <Sun className="w-5 h-5 text-yellow-400" /> : <Moon className="w-5 h-5 text-gray-600" />}
           </button>
@@ -279,16 +969,18 @@ const App: React.FC = () => {
           <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
             <Network className="text-primary" /> {t('inputData')}
           </h2>
-          <textarea
-            value={mmInput}
-            onChange={(e) => setMmInput(e.target.value)}
-            className="w-full h-64 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-4 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all resize-none font-mono text-sm"
-            placeholder={t('inputPlaceholder')}
-          />
+          <FileDropZone onFiles={(files) => loadFiles(files, setMmInput)}>
+            <textarea
+              value={mmInput}
+              onChange={(e) => setMmInput(e.target.value)}
+              className="w-full h-64 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-4 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all resize-none font-mono text-sm"
+              placeholder={t('inputPlaceholder')}
+            />
+          </FileDropZone>
           <div className="flex gap-4 mt-4">
              <label className="flex-1 cursor-pointer bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-text font-semibold py-3 px-4 rounded-xl transition-all text-center flex items-center justify-center gap-2">
                 <Upload size={18} /> {t('upload')}
-                <input type="file" className="hidden" onChange={(e) => handleFileUpload(e, setMmInput)} accept=".txt,.md,.csv,.json"/>
+                <input type="file" className="hidden" multiple onChange={(e) => handleFileUpload(e, setMmInput)} accept={INGEST_ACCEPT}/>
             </label>
             <button
               onClick={handleGenerateMindMap}
@@ -298,39 +990,80 @@ const App: React.FC = () => {
               {loading ? 'Thinking...' : <>{t('transform')} ✨</>}
             </button>
           </div>
+          <div className="mt-3 flex items-center justify-between">
+            {renderBypassToggle(mmBypassCache, setMmBypassCache)}
+            {renderChunkBadge(mmProgress)}
+          </div>
         </div>
       </div>
       <div className="lg:col-span-2">
-         <div className="bg-surface rounded-2xl p-2 shadow-xl border border-gray-100 dark:border-gray-800 h-[600px] flex flex-col">
-            <MindMap data={mmData} primaryColor={theme.primary} />
+         <div className="bg-surface rounded-2xl p-2 shadow-xl border border-gray-100 dark:border-gray-800 h-[calc(100vh-12rem)] min-h-[400px] flex flex-col">
+            <MindMap
+              data={mmData}
+              primaryColor={theme.primary}
+              onEdit={editMindMap}
+              onUndo={() => updateMindMapHistory(undo)}
+              onRedo={() => updateMindMapHistory(redo)}
+              undoLabel={mmHistory.past[mmHistory.past.length - 1]?.label}
+              redoLabel={mmHistory.future[0]?.label}
+              onError={setError}
+              sourceText={mmInput}
+            />
          </div>
       </div>
     </div>
   );
 
+  const agentDeps = buildDependencies(agents);
+  const agentGraphProblem = (() => {
+    try {
+      topologicalLayers(agents);
+      return null;
+    } catch (err: any) {
+      return err instanceof AgentGraphError ? err.message : null;
+    }
+  })();
+
   const renderAnalysisTab = () => (
     <div className="p-6 space-y-8 animate-in fade-in duration-500">
-      <div className="grid md:grid-cols-2 gap-6">
-        {[doc1, doc2].map((doc, idx) => (
-          <div key={idx} className="bg-surface rounded-2xl p-6 shadow-xl border border-gray-100 dark:border-gray-800 relative group">
-            <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity">
-               <label className="cursor-pointer p-2 bg-gray-100 dark:bg-gray-700 rounded-full inline-flex">
-                 <Upload size={16} />
-                 <input type="file" className="hidden" onChange={(e) => handleFileUpload(e, idx === 0 ? setDoc1 : setDoc2)} />
-               </label>
-            </div>
-            <h3 className="text-lg font-bold mb-3 flex items-center gap-2">
-              <FileText className="text-primary" /> {idx === 0 ? t('doc1') : t('doc2')}
-            </h3>
-            <textarea
-              value={doc}
-              onChange={(e) => idx === 0 ? setDoc1(e.target.value) : setDoc2(e.target.value)}
-              className="w-full h-48 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-4 focus:ring-2 focus:ring-primary outline-none resize-none"
-              placeholder="Paste content..."
-            />
-          </div>
-        ))}
-      </div>
+      <DocumentLibrary documents={documents} onChange={setDocuments} onError={setError} t={t} />
+
+      {documents.length >= 2 && (
+        <div className="space-y-4">
+          <h2 className="text-2xl font-serif font-bold">{t('compare')}</h2>
+          <DocumentComparePanel
+            documents={documents}
+            narrative={compareNarrative}
+            narrativeLoading={compareLoading}
+            narrativeProgress={compareProgress}
+            onRunNarrative={handleCompareNarrative}
+            onStopNarrative={() => stopRun('comparison')}
+            clauseResult={clauseResult}
+            clausesLoading={clausesLoading}
+            onRunClauses={handleCompareClauses}
+            onStopClauses={() => stopRun('clauses')}
+            similarity={similarity}
+            similarityLoading={similarityLoading}
+            onRunSimilarity={handleSemanticSimilarity}
+            onStopSimilarity={() => stopRun('similarity')}
+            t={t}
+          />
+        </div>
+      )}
+
+      <DocumentChatPanel
+        documents={documents}
+        messages={chat}
+        loading={chatLoading}
+        config={chatConfig}
+        onConfigChange={setChatConfig}
+        embeddingModel={embeddingModel}
+        onEmbeddingModelChange={setEmbeddingModel}
+        onAsk={handleAskDocuments}
+        onStop={() => stopRun('chat')}
+        onClear={() => setChat([])}
+        t={t}
+      />
 
       <div className="space-y-6">
         <div className="flex items-center justify-between flex-wrap gap-4">
@@ -340,52 +1073,121 @@ const App: React.FC = () => {
                 <Upload size={20} />
                 <input type="file" className="hidden" onChange={uploadAgents} accept=".yaml,.yml"/>
              </label>
+             <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer" title={t('mergeImportDesc')}>
+               <input type="checkbox" checked={mergeImport} onChange={(e) => setMergeImport(e.target.checked)} className="accent-primary" />
+               {t('mergeImport')}
+             </label>
              <button onClick={downloadAgents} className="p-2 bg-gray-200 dark:bg-gray-800 rounded-full hover:bg-primary hover:text-white transition-colors" title="Save Agents (YAML)">
                 <Save size={20} />
              </button>
+             <div className="flex items-center rounded-full bg-gray-200 dark:bg-gray-800 text-xs font-semibold overflow-hidden" title={t('exportReport')}>
+               <span className="pl-3 pr-1 text-gray-400"><FileDown size={16} /></span>
+               <button onClick={() => exportReport('md')} className="px-2 py-2 hover:bg-primary hover:text-white transition-colors">MD</button>
+               <button onClick={() => exportReport('html')} className="px-2 py-2 hover:bg-primary hover:text-white transition-colors">HTML</button>
+             </div>
              <div className="w-4" /> {/* Spacer */}
-             <button onClick={() => setAgents([...agents, { id: Date.now(), name: `Analyst ${agents.length + 1}`, prompt: '', model: 'gemini-2.5-flash', maxTokens: 1000, temperature: 0.7, contextType: 'both', isLoading: false }])} className="p-2 bg-gray-200 dark:bg-gray-800 rounded-full hover:bg-primary hover:text-white transition-colors">
+             <button onClick={() => setAgents([...agents, { id: Date.now(), name: nextAgentName(agents), prompt: '', provider: defaultModel.provider, model: defaultModel.model, maxTokens: 1000, temperature: 0.7, documentIds: documents.map(doc => doc.id), isLoading: false }])} className="p-2 bg-gray-200 dark:bg-gray-800 rounded-full hover:bg-primary hover:text-white transition-colors">
               <Plus size={20} />
              </button>
-             <button onClick={handleRunAllAgents} className="px-4 py-2 bg-green-500 text-white rounded-full font-bold flex items-center gap-2 hover:bg-green-600 transition-colors shadow-lg shadow-green-500/30">
+             <label className="flex items-center gap-1 text-xs text-gray-400" title={t('batchConcurrency')}>
+               {t('batchConcurrency')}
+               <input
+                 type="number" min="1" max="10"
+                 value={batchConfig.concurrency}
+                 onChange={(e) => setBatchConfig({ ...batchConfig, concurrency: Math.max(1, parseInt(e.target.value) || 1) })}
+                 className="w-12 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1 text-sm outline-none"
+               />
+             </label>
+             <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer">
+               <input type="checkbox" checked={batchConfig.failFast} onChange={(e) => setBatchConfig({ ...batchConfig, failFast: e.target.checked })} className="accent-primary" />
+               {t('failFast')}
+             </label>
+             <button onClick={handleRunAllAgents} disabled={!!batchStatus && !batchReport} className="px-4 py-2 bg-green-500 disabled:opacity-50 text-white rounded-full font-bold flex items-center gap-2 hover:bg-green-600 transition-colors shadow-lg shadow-green-500/30">
                <Play size={18} fill="currentColor" /> {t('runAgents')}
              </button>
           </div>
         </div>
 
+        {batchStatus && (
+          <BatchProgress
+            agents={agents}
+            status={batchStatus}
+            report={batchReport}
+            onStop={stopAllAgents}
+            onDismiss={() => {
+              setBatchStatus(null);
+              setBatchReport(null);
+            }}
+            t={t}
+          />
+        )}
+
+        {agentGraphProblem && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 text-sm">
+            <AlertTriangle size={16} /> {agentGraphProblem}
+          </div>
+        )}
+
         <div className="grid xl:grid-cols-2 gap-6">
           {agents.map((agent) => (
             <div key={agent.id} className="bg-surface rounded-2xl p-6 shadow-xl border border-gray-100 dark:border-gray-800 transition-all hover:border-primary/50">
                <div className="flex justify-between items-start mb-4">
                  <input 
-                   value={agent.name}
-                   onChange={(e) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, name: e.target.value } : a))}
+                   value={nameDrafts[agent.id] ?? agent.name}
+                   onChange={(e) => setNameDrafts(prev => ({ ...prev, [agent.id]: e.target.value }))}
+                   onBlur={() => commitAgentName(agent)}
+                   onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
                    className="text-lg font-bold bg-transparent border-b border-transparent hover:border-gray-300 focus:border-primary outline-none"
                  />
-                 <button onClick={() => setAgents(prev => prev.filter(a => a.id !== agent.id))} className="text-red-400 hover:text-red-600">
-                   <Trash2 size={18} />
-                 </button>
+                 {batchStatus?.[agent.id] && (() => {
+                   const { icon: Icon, className } = STATUS_STYLES[batchStatus[agent.id]];
+                   return (
+                     <span className={`ml-2 mr-auto flex items-center gap-1 text-xs ${className}`}>
+                       <Icon size={14} className={batchStatus[agent.id] === 'running' ? 'animate-spin' : ''} /> {batchStatus[agent.id]}
+                     </span>
+                   );
+                 })()}
+                 <div className="flex items-center gap-3">
+                   <button onClick={() => setHistoryAgentId(agent.id)} className="flex items-center gap-1 text-gray-400 hover:text-primary" title={t('runHistory')}>
+                     <History size={18} />
+                     <span className="text-xs font-mono">{runs.filter(r => r.agentId === agent.id).length}</span>
+                   </button>
+                   <button onClick={() => setAgents(prev => prev.filter(a => a.id !== agent.id))} className="text-red-400 hover:text-red-600">
+                     <Trash2 size={18} />
+                   </button>
+                 </div>
                </div>
 
                <div className="grid grid-cols-2 gap-4 mb-4">
-                  <select 
-                    value={agent.model}
-                    onChange={(e) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, model: e.target.value } : a))}
+                  <ModelSelect
+                    value={{ provider: agent.provider, model: agent.model }}
+                    models={models}
+                    onChange={(target) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, ...target } : a))}
                     className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-sm"
-                  >
-                    {AVAILABLE_MODELS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
-                  </select>
+                  />
                   
-                  <select 
-                    value={agent.contextType}
-                    onChange={(e) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, contextType: e.target.value as any } : a))}
+                  <select
+                    value={agent.outputMode || 'text'}
+                    onChange={(e) => setAgents(prev => prev.map(a => a.id === agent.id ? {
+                      ...a,
+                      outputMode: e.target.value as 'text' | 'json',
+                      responseSchema: a.responseSchema || (e.target.value === 'json' ? DEFAULT_RESPONSE_SCHEMA : undefined)
+                    } : a))}
                     className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-sm"
                   >
-                    <option value="both">Both Docs</option>
-                    <option value="doc1">Doc 1 Only</option>
-                    <option value="doc2">Doc 2 Only</option>
+                    <option value="text">Free Text Output</option>
+                    <option value="json">Structured JSON Output</option>
                   </select>
 
+                  <DocumentContextPicker
+                    documents={documents}
+                    documentIds={agent.documentIds}
+                    documentTags={agent.documentTags || []}
+                    estimate={contextEstimates.get(agent.id)!}
+                    onChange={(selection) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, ...selection } : a))}
+                    t={t}
+                  />
+
                   <div className="flex items-center gap-2 col-span-2">
                     <span className="text-xs uppercase text-gray-400">Max Tokens:</span>
                     <input 
@@ -398,27 +1200,118 @@ const App: React.FC = () => {
                   </div>
                </div>
 
+               <TemplatePicker
+                 templates={[...BUILT_IN_PROMPT_TEMPLATES, ...userTemplates]}
+                 templateId={agent.templateId}
+                 templateVersion={agent.templateVersion}
+                 onApply={(template) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, ...applyTemplate(a, template) } : a))}
+                 onSave={() => handleSaveTemplate(agent)}
+                 onRestore={(templateId, version) => handleRestoreTemplateVersion(agent, templateId, version)}
+               />
+
                <textarea
                  value={agent.prompt}
                  onChange={(e) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, prompt: e.target.value } : a))}
                  className="w-full h-24 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-3 text-sm mb-4 focus:ring-1 focus:ring-primary outline-none resize-none"
-                 placeholder="Enter instruction for this agent..."
+                 placeholder="Enter instruction for this agent... Use {{variable}} for values filled in below and {{agent:Name}} to include another agent's output."
+               />
+
+               <PromptVariablesForm
+                 variables={describeVariables(agent.prompt, agent.variables)}
+                 values={agent.variableValues || {}}
+                 onChange={(values) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, variableValues: values } : a))}
                />
 
-               <button 
-                onClick={() => handleRunAgent(agent.id)}
-                disabled={agent.isLoading}
-                className="w-full py-2 bg-primary/10 text-primary hover:bg-primary hover:text-white rounded-lg font-semibold transition-colors flex justify-center items-center gap-2"
-               >
-                 {agent.isLoading ? 'Processing...' : 'Execute Agent'}
-               </button>
+               {((agentDeps.dependsOn.get(agent.id) || []).length > 0 || agentDeps.unknownRefs.has(agent.id)) && (
+                 <div className="flex flex-wrap items-center gap-2 -mt-2 mb-4 text-xs">
+                   <span className="uppercase text-gray-400">Uses:</span>
+                   {(agentDeps.dependsOn.get(agent.id) || []).map(depId => (
+                     <span key={depId} className="px-2 py-0.5 rounded-full bg-primary/10 text-primary">
+                       {agents.find(a => a.id === depId)?.name}
+                     </span>
+                   ))}
+                   {(agentDeps.unknownRefs.get(agent.id) || []).map(ref => (
+                     <span key={ref} className="px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400" title="No agent has this name">
+                       {ref}?
+                     </span>
+                   ))}
+                 </div>
+               )}
+
+               {agent.outputMode === 'json' && (
+                 <SchemaEditor
+                   value={agent.responseSchema}
+                   onChange={(schema) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, responseSchema: schema } : a))}
+                 />
+               )}
+
+               <GenerationSettingsEditor
+                 value={agentGenerationSettings(agent)}
+                 onChange={(patch) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, ...patch } : a))}
+               />
+
+               <ModelComparisonSettings
+                 value={agent.comparison}
+                 models={models}
+                 fallbackJudge={defaultModel}
+                 onChange={(comparison) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, comparison } : a))}
+               />
+
+               {agent.isLoading ? (
+                 <button
+                  onClick={() => stopRun(agent.id)}
+                  className="w-full py-2 bg-red-500/10 text-red-500 hover:bg-red-500 hover:text-white rounded-lg font-semibold transition-colors flex justify-center items-center gap-2"
+                 >
+                   <Square size={14} fill="currentColor" /> Stop
+                 </button>
+               ) : (
+                 <button 
+                  onClick={() => agent.comparison?.enabled ? handleCompareModels(agent.id) : handleRunAgent(agent.id)}
+                  disabled={agent.comparison?.enabled && agent.comparison.targets.length === 0}
+                  title={agent.comparison?.enabled && agent.comparison.targets.length === 0 ? t('noComparisonTargets') : undefined}
+                  className="w-full py-2 bg-primary/10 text-primary hover:bg-primary hover:text-white disabled:opacity-50 disabled:pointer-events-none rounded-lg font-semibold transition-colors flex justify-center items-center gap-2"
+                 >
+                   {agent.comparison?.enabled ? `Compare ${agent.comparison.targets.length} Models` : 'Execute Agent'}
+                 </button>
+               )}
+               <div className="flex justify-end mt-2">
+                 {renderBypassToggle(!!agent.bypassCache, (checked) => setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, bypassCache: checked } : a)))}
+               </div>
+
+               {agent.comparison?.enabled && comparisons[agent.id] && (
+                 <ModelComparisonView comparison={comparisons[agent.id]} onChoose={(entry) => adoptComparisonOutput(agent.id, entry)} />
+               )}
 
-               {agent.output && (
+               {agent.output && !agent.comparison?.enabled && (
                  <div className="mt-4 p-4 bg-gray-50 dark:bg-black/30 rounded-lg border-l-4 border-primary animate-in slide-in-from-top-2">
-                   <h4 className="text-xs font-bold uppercase text-gray-400 mb-2">Output</h4>
-                   <div className="prose prose-sm dark:prose-invert max-w-none">
-                     {agent.output.split('\n').map((line, i) => <p key={i} className="my-1">{line}</p>)}
-                   </div>
+                   <h4 className="text-xs font-bold uppercase text-gray-400 mb-2 flex items-center gap-2 flex-wrap">
+                     Output
+                     {agent.isLoading && <span className="normal-case font-normal animate-pulse">streaming...</span>}
+                     {agent.incomplete && <span className="normal-case font-semibold text-amber-500">incomplete (stopped)</span>}
+                     <span className="ml-auto flex items-center gap-2 normal-case">
+                       {agent.usage && agent.usage.calls > 0 && <UsageBadge usage={agent.usage} />}
+                       {!agent.isLoading && <CopyButton text={agent.output} className="hover:text-primary" />}
+                     </span>
+                   </h4>
+                   {agent.repairedFrom && (
+                     <details className="mb-2 text-xs text-amber-500">
+                       <summary className="cursor-pointer font-semibold">
+                         First output violated the schema ({agent.repairedFrom.length} issues); a repair was requested
+                       </summary>
+                       <ul className="list-disc pl-5 mt-1">{agent.repairedFrom.map((e, i) => <li key={i}>{e}</li>)}</ul>
+                     </details>
+                   )}
+                   {agent.validationErrors && agent.validationErrors.length > 0 && (
+                     <div className="mb-2 p-2 rounded bg-red-500/10 text-xs text-red-500">
+                       <p className="font-semibold mb-1">Output does not match the schema:</p>
+                       <ul className="list-disc pl-5">{agent.validationErrors.map((e, i) => <li key={i}>{e}</li>)}</ul>
+                     </div>
+                   )}
+                   {agent.jsonOutput !== undefined && !agent.isLoading ? (
+                     <JsonResultView data={agent.jsonOutput} filename={agent.name.replace(/\W+/g, '-').toLowerCase() || 'agent-output'} />
+                   ) : (
+                     <div className="markdown-body text-text text-sm" dangerouslySetInnerHTML={{ __html: renderMarkdown(agent.output) }} />
+                   )}
                  </div>
                )}
             </div>
@@ -437,24 +1330,36 @@ const App: React.FC = () => {
              <h3 className="font-bold text-lg flex items-center gap-2"><NotebookPen className="text-primary"/> Raw Input</h3>
              <label className="cursor-pointer text-xs flex items-center gap-1 bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded hover:bg-gray-200">
                 <Upload size={14}/> Upload
-                <input type="file" className="hidden" onChange={(e) => handleFileUpload(e, setNoteInput)} accept=".txt,.md"/>
+                <input type="file" className="hidden" multiple onChange={(e) => handleFileUpload(e, setNoteInput)} accept={INGEST_ACCEPT}/>
              </label>
           </div>
-          <textarea
-            value={noteInput}
-            onChange={(e) => setNoteInput(e.target.value)}
-            className="flex-1 w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-4 focus:ring-2 focus:ring-primary outline-none resize-none font-mono text-sm"
-            placeholder="Paste your document or rough notes here..."
-          />
+          <FileDropZone onFiles={(files) => loadFiles(files, setNoteInput)} className="flex-1 flex flex-col">
+            <textarea
+              value={noteInput}
+              onChange={(e) => setNoteInput(e.target.value)}
+              className="flex-1 w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-4 focus:ring-2 focus:ring-primary outline-none resize-none font-mono text-sm"
+              placeholder="Paste your document or rough notes here..."
+            />
+          </FileDropZone>
         </div>
         
-        <button
-          onClick={handleProcessSmartNote}
-          disabled={loading || !noteInput}
-          className="w-full bg-gradient-to-r from-primary to-purple-600 text-white font-bold py-4 rounded-xl shadow-lg hover:shadow-primary/50 hover:scale-[1.02] active:scale-95 transition-all flex items-center justify-center gap-3 disabled:opacity-50 disabled:pointer-events-none"
-        >
-          {loading ? 'Processing...' : <>{t('processAll')} <Wand2 className="animate-pulse" /></>}
-        </button>
+        {loading && abortControllers.current.has('smartnote') ? (
+          <button
+            onClick={() => stopRun('smartnote')}
+            className="w-full bg-red-500 text-white font-bold py-4 rounded-xl shadow-lg hover:bg-red-600 active:scale-95 transition-all flex items-center justify-center gap-3"
+          >
+            <Square size={18} fill="currentColor" /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleProcessSmartNote}
+            disabled={loading || !noteInput}
+            className="w-full bg-gradient-to-r from-primary to-purple-600 text-white font-bold py-4 rounded-xl shadow-lg hover:shadow-primary/50 hover:scale-[1.02] active:scale-95 transition-all flex items-center justify-center gap-3 disabled:opacity-50 disabled:pointer-events-none"
+          >
+            {loading ? 'Processing...' : <>{t('processAll')} <Wand2 className="animate-pulse" /></>}
+          </button>
+        )}
+        <div className="flex justify-end -mt-2">{renderBypassToggle(noteBypassCache, setNoteBypassCache)}</div>
       </div>
 
       {/* Right: Output */}
@@ -478,7 +1383,9 @@ const App: React.FC = () => {
                    className="w-6 h-6 rounded cursor-pointer border-none bg-transparent"
                  />
               </div>
-              <div className="flex gap-2">
+              <div className="flex items-center gap-2">
+                 {renderChunkBadge(noteProgress)}
+                 {noteIncomplete && <span className="text-xs font-semibold text-amber-500">Incomplete (stopped)</span>}
                  <button onClick={downloadSmartNote} disabled={!noteOutput} className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded text-gray-600 dark:text-gray-300 disabled:opacity-30" title="Download Markdown">
                     <Download size={18}/>
                  </button>
@@ -533,10 +1440,12 @@ const App: React.FC = () => {
         </div>
 
         {error && (
-          <div className="mx-6 mb-6 p-4 bg-red-500/10 border border-red-500/50 text-red-500 rounded-xl flex justify-between items-center">
-             <span>{error}</span>
-             <button onClick={() => setError(null)}><X size={18}/></button>
-          </div>
+          <ErrorBanner
+            error={error}
+            onDismiss={() => setError(null)}
+            onOpenSettings={() => setShowSettings(true)}
+            t={t}
+          />
         )}
 
         <main>
@@ -549,7 +1458,7 @@ const App: React.FC = () => {
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
-          <div className="bg-surface w-full max-w-md rounded-3xl p-8 shadow-2xl animate-in zoom-in-95 border border-gray-200 dark:border-gray-800">
+          <div className="bg-surface w-full max-w-md max-h-[90vh] overflow-y-auto rounded-3xl p-8 shadow-2xl animate-in zoom-in-95 border border-gray-200 dark:border-gray-800">
              <div className="flex justify-between items-center mb-6">
                <h2 className="text-2xl font-bold font-serif">{t('settings')}</h2>
                <button onClick={() => setShowSettings(false)} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full"><X/></button>
@@ -567,6 +1476,49 @@ const App: React.FC = () => {
                  />
                  <p className="text-xs text-gray-400 mt-2">The key is stored in memory only. Leave empty to use system environment variables (if configured).</p>
                </div>
+
+               <ModelSettings
+                 models={models}
+                 customModels={customModels}
+                 onCustomModelsChange={setCustomModels}
+                 openAIConfig={openAIConfig}
+                 onOpenAIConfigChange={setOpenAIConfig}
+                 defaultModel={defaultModel}
+                 onDefaultModelChange={setDefaultModel}
+                 t={t}
+               />
+
+               <CacheSettings config={cacheConfig} onChange={setCacheConfig} t={t} />
+
+               <UsageSettings
+                 models={models}
+                 prices={modelPrices}
+                 onPricesChange={setModelPrices}
+                 budget={budget}
+                 onBudgetChange={setBudget}
+                 t={t}
+               />
+
+               <div>
+                  <label className="block text-sm font-bold mb-2">{t('requests')}</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([
+                      ['concurrency', 1, 10],
+                      ['maxRetries', 0, 8],
+                      ['timeoutSeconds', 10, 600]
+                    ] as [keyof SchedulerConfig, number, number][]).map(([field, min, max]) => (
+                      <label key={field} className="text-xs text-gray-400">
+                        {t(field)}
+                        <input
+                          type="number" min={min} max={max}
+                          value={schedulerConfig[field]}
+                          onChange={(e) => setSchedulerConfig({ ...schedulerConfig, [field]: Math.min(max, Math.max(min, parseInt(e.target.value) || min)) })}
+                          className="w-full mt-1 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-2 text-sm text-text outline-none focus:ring-1 focus:ring-primary"
+                        />
+                      </label>
+                    ))}
+                  </div>
+               </div>
                
                <div>
                   <label className="block text-sm font-bold mb-2">{t('theme')}</label>
@@ -593,6 +1545,27 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Usage Dashboard Modal */}
+      {showUsage && (
+        <UsageDashboard
+          records={usageRecords}
+          budget={budget}
+          onReset={resetUsage}
+          onClose={() => setShowUsage(false)}
+          t={t}
+        />
+      )}
+
+      {historyAgentId !== null && (
+        <RunHistoryDrawer
+          agentName={agents.find(a => a.id === historyAgentId)?.name || ''}
+          runs={runs.filter(r => r.agentId === historyAgentId)}
+          onClear={() => clearAgentRuns(historyAgentId)}
+          onClose={() => setHistoryAgentId(null)}
+          t={t}
+        />
+      )}
+
       {/* Lucky Wheel Modal */}
       {showWheel && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-md p-4">
@@ -0,0 +1,107 @@
+import React from 'react';
+import { CheckCircle2, Clock, Download, Loader2, MinusCircle, Square, X, XCircle } from 'lucide-react';
+import { AgentConfig, BatchItemStatus, BatchReport } from '../types';
+import { downloadFile } from '../services/exportUtils';
+
+interface BatchProgressProps {
+  agents: AgentConfig[];
+  status: Record<number, BatchItemStatus>;
+  report: BatchReport | null; // Set once the batch has finished
+  onStop: () => void;
+  onDismiss: () => void;
+  t: (key: string) => string;
+}
+
+export const STATUS_STYLES: Record<BatchItemStatus, { icon: React.ElementType; className: string }> = {
+  queued: { icon: Clock, className: 'text-gray-400' },
+  running: { icon: Loader2, className: 'text-primary' },
+  done: { icon: CheckCircle2, className: 'text-green-500' },
+  failed: { icon: XCircle, className: 'text-red-500' },
+  skipped: { icon: MinusCircle, className: 'text-amber-500' },
+};
+
+const formatDuration = (ms?: number) => ms === undefined ? '—' : `${(ms / 1000).toFixed(1)}s`;
+
+// One markdown document with every agent's status and output
+const reportToMarkdown = (report: BatchReport, agents: AgentConfig[]) => {
+  const sections = report.results.map(r => {
+    const agent = agents.find(a => a.id === r.id);
+    const lines = [`## ${agent?.name || r.id}`, '', `Status: ${r.status} (${formatDuration(r.durationMs)})`];
+    if (r.error) lines.push('', `Error: ${r.error}`);
+    if (agent?.output) lines.push('', agent.output);
+    return lines.join('\n');
+  });
+  return [
+    '# Agent Run Report',
+    '',
+    `Started ${new Date(report.startedAt).toLocaleString()}, took ${formatDuration(report.finishedAt - report.startedAt)}`,
+    '',
+    ...sections
+  ].join('\n');
+};
+
+const BatchProgress: React.FC<BatchProgressProps> = ({ agents, status, report, onStop, onDismiss, t }) => {
+  const ids = Object.keys(status).map(Number);
+  const count = (s: BatchItemStatus) => ids.filter(id => status[id] === s).length;
+  const finished = count('done') + count('failed') + count('skipped');
+
+  return (
+    <div className="bg-surface rounded-2xl p-4 shadow-xl border border-gray-100 dark:border-gray-800 animate-in slide-in-from-top-2">
+      <div className="flex items-center gap-4 text-xs mb-2">
+        {(Object.keys(STATUS_STYLES) as BatchItemStatus[]).map(s => {
+          const { icon: Icon, className } = STATUS_STYLES[s];
+          return (
+            <span key={s} className={`flex items-center gap-1 ${className}`}>
+              <Icon size={14} /> {count(s)} {s}
+            </span>
+          );
+        })}
+        <div className="ml-auto flex gap-2">
+          {report ? (
+            <>
+              <button
+                onClick={() => downloadFile(reportToMarkdown(report, agents), 'agent-report.md', 'text/markdown')}
+                className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800"
+              >
+                <Download size={14} /> {t('batchReport')}
+              </button>
+              <button onClick={onDismiss} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800">
+                <X size={14} />
+              </button>
+            </>
+          ) : (
+            <button onClick={onStop} className="flex items-center gap-1 px-2 py-1 rounded text-red-500 hover:bg-red-500 hover:text-white">
+              <Square size={12} fill="currentColor" /> {t('stopAgents')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden">
+        <div className="h-full bg-primary transition-all" style={{ width: `${ids.length ? (finished / ids.length) * 100 : 0}%` }} />
+      </div>
+
+      {report && (
+        <table className="w-full text-xs mt-4">
+          <tbody>
+            {report.results.map(r => {
+              const { icon: Icon, className } = STATUS_STYLES[r.status];
+              return (
+                <tr key={r.id} className="border-t border-gray-200 dark:border-gray-800">
+                  <td className="py-2 pr-2 font-semibold">{agents.find(a => a.id === r.id)?.name || r.id}</td>
+                  <td className={`py-2 pr-2 ${className}`}>
+                    <span className="flex items-center gap-1"><Icon size={14} /> {r.status}</span>
+                  </td>
+                  <td className="py-2 pr-2 font-mono text-right">{formatDuration(r.durationMs)}</td>
+                  <td className="py-2 text-red-500">{r.error}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default BatchProgress;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import { CacheConfig } from '../types';
+import { CacheEntry, clearCache, deleteCacheEntry, listCacheEntries } from '../services/responseCache';
+import { clearEmbeddingCache, countStoredEmbeddings, MAX_STORED_VECTORS } from '../services/embeddings';
+
+interface CacheSettingsProps {
+  config: CacheConfig;
+  onChange: (config: CacheConfig) => void;
+  t: (key: string) => string;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const CacheSettings: React.FC<CacheSettingsProps> = ({ config, onChange, t }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [vectorCount, setVectorCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      const all = await listCacheEntries();
+      setEntries(all.sort((a, b) => b.lastAccessedAt - a.lastAccessedAt));
+      setVectorCount(await countStoredEmbeddings());
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || 'IndexedDB is unavailable.');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const totalBytes = entries.reduce((sum, e) => sum + e.bytes, 0);
+
+  return (
+    <div>
+      <label className="block text-sm font-bold mb-2">{t('responseCache')}</label>
+      <div className="flex items-center gap-4 mb-2 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+            className="accent-primary"
+          />
+          {t('cacheEnabled')}
+        </label>
+        <label className="flex items-center gap-2 text-gray-400">
+          {t('cacheLimit')}
+          <input
+            type="number" min={1} max={1000}
+            value={config.maxMegabytes}
+            onChange={(e) => onChange({ ...config, maxMegabytes: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="w-16 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1 text-text outline-none"
+          />
+          MB
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+        <span>{entries.length} entries · {formatBytes(totalBytes)}</span>
+        <div className="flex gap-2">
+          <button onClick={refresh} className="flex items-center gap-1 hover:text-primary"><RefreshCw size={12} /> Refresh</button>
+          <button
+            onClick={async () => { await clearCache(); refresh(); }}
+            disabled={entries.length === 0}
+            className="flex items-center gap-1 text-red-400 hover:text-red-600 disabled:opacity-50"
+          >
+            <Trash2 size={12} /> {t('clearCache')}
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+      <ul className="space-y-1 max-h-40 overflow-y-auto">
+        {entries.map(entry => (
+          <li key={entry.key} className="flex items-start justify-between gap-2 text-xs px-2 py-1 rounded bg-gray-50 dark:bg-gray-900">
+            <div className="min-w-0">
+              <p className="font-semibold truncate">{entry.model} <span className="font-normal text-gray-400">· {formatBytes(entry.bytes)} · {entry.hits} hits · {new Date(entry.lastAccessedAt).toLocaleString()}</span></p>
+              <p className="text-gray-400 truncate" title={entry.promptPreview}>{entry.promptPreview.trim()}</p>
+            </div>
+            <button onClick={async () => { await deleteCacheEntry(entry.key); refresh(); }} className="text-red-400 hover:text-red-600 shrink-0">
+              <Trash2 size={12} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between text-xs text-gray-400 mt-3">
+        <span>{t('embeddingCache')}: {vectorCount.toLocaleString()} / {MAX_STORED_VECTORS.toLocaleString()} vectors</span>
+        <button
+          onClick={async () => { await clearEmbeddingCache(); refresh(); }}
+          disabled={vectorCount === 0}
+          className="flex items-center gap-1 text-red-400 hover:text-red-600 disabled:opacity-50"
+        >
+          <Trash2 size={12} /> {t('clearCache')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CacheSettings;
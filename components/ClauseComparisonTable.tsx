@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Download, LocateFixed } from 'lucide-react';
+import { ClauseComparison, ClauseSeverity, ClauseStatus } from '../types';
+import { downloadFile, toCsv } from '../services/exportUtils';
+
+interface ClauseComparisonTableProps {
+  clauses: ClauseComparison[];
+  locations: { left: number; right: number }[]; // Diff row of each clause's excerpts, -1 when not found
+  beforeName: string;
+  afterName: string;
+  onLocate: (row: number) => void;
+}
+
+const STATUSES: ClauseStatus[] = ['modified', 'added', 'removed', 'unchanged'];
+const SEVERITIES: ClauseSeverity[] = ['none', 'low', 'medium', 'high'];
+
+const STATUS_STYLES: Record<ClauseStatus, string> = {
+  unchanged: 'bg-gray-500/10 text-gray-500',
+  modified: 'bg-amber-500/10 text-amber-500',
+  added: 'bg-green-500/10 text-green-500',
+  removed: 'bg-red-500/10 text-red-500',
+};
+
+const SEVERITY_STYLES: Record<ClauseSeverity, string> = {
+  none: 'text-gray-400',
+  low: 'text-blue-500',
+  medium: 'text-amber-500',
+  high: 'text-red-500 font-bold',
+};
+
+const ClauseComparisonTable: React.FC<ClauseComparisonTableProps> = ({ clauses, locations, beforeName, afterName, onLocate }) => {
+  const [statuses, setStatuses] = useState<ClauseStatus[]>(['modified', 'added', 'removed']);
+  const [minSeverity, setMinSeverity] = useState<ClauseSeverity>('none');
+  const [query, setQuery] = useState('');
+
+  const toggleStatus = (status: ClauseStatus) =>
+    setStatuses(statuses.includes(status) ? statuses.filter(s => s !== status) : [...statuses, status]);
+
+  const needle = query.trim().toLowerCase();
+  const visible = clauses
+    .map((clause, i) => ({ clause, location: locations[i] }))
+    .filter(({ clause }) =>
+      statuses.includes(clause.status) &&
+      SEVERITIES.indexOf(clause.severity) >= SEVERITIES.indexOf(minSeverity) &&
+      (!needle || `${clause.section} ${clause.explanation}`.toLowerCase().includes(needle)));
+
+  const exportRows = () => visible.map(({ clause }) => ({
+    section: clause.section,
+    status: clause.status,
+    severity: clause.severity,
+    explanation: clause.explanation,
+    beforeExcerpt: clause.beforeExcerpt || '',
+    afterExcerpt: clause.afterExcerpt || '',
+  }));
+
+  const locateButton = (row: number, label: string) => (
+    <button
+      onClick={() => onLocate(row)}
+      disabled={row < 0}
+      className="flex items-center gap-1 whitespace-nowrap hover:text-primary disabled:opacity-30"
+      title={row < 0 ? 'Excerpt not found in the document' : `Show in ${label}`}
+    >
+      <LocateFixed size={12} /> {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap text-xs">
+        {STATUSES.map(status => (
+          <button
+            key={status}
+            onClick={() => toggleStatus(status)}
+            className={`px-2 py-1 rounded-full capitalize ${statuses.includes(status) ? STATUS_STYLES[status] : 'text-gray-400 line-through'}`}
+          >
+            {status} ({clauses.filter(c => c.status === status).length})
+          </button>
+        ))}
+        <select value={minSeverity} onChange={(e) => setMinSeverity(e.target.value as ClauseSeverity)} className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1">
+          {SEVERITIES.map(s => <option key={s} value={s}>Severity ≥ {s}</option>)}
+        </select>
+        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Filter..." className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1" />
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => downloadFile(JSON.stringify(exportRows(), null, 2), 'clause-comparison.json', 'application/json')} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800">
+            <Download size={12} /> JSON
+          </button>
+          <button onClick={() => downloadFile(toCsv(exportRows()), 'clause-comparison.csv', 'text/csv')} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800">
+            <Download size={12} /> CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border-collapse">
+          <thead>
+            <tr>
+              {['Section', 'Status', 'Severity', 'Explanation', ''].map(h => (
+                <th key={h} className="text-left p-2 border border-gray-300 dark:border-gray-700 bg-gray-100 dark:bg-gray-800">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(({ clause, location }, i) => (
+              <tr key={i}>
+                <td className="p-2 border border-gray-300 dark:border-gray-700 align-top font-semibold">{clause.section}</td>
+                <td className="p-2 border border-gray-300 dark:border-gray-700 align-top">
+                  <span className={`px-2 py-0.5 rounded-full capitalize ${STATUS_STYLES[clause.status]}`}>{clause.status}</span>
+                </td>
+                <td className={`p-2 border border-gray-300 dark:border-gray-700 align-top capitalize ${SEVERITY_STYLES[clause.severity]}`}>{clause.severity}</td>
+                <td className="p-2 border border-gray-300 dark:border-gray-700 align-top">{clause.explanation}</td>
+                <td className="p-2 border border-gray-300 dark:border-gray-700 align-top space-y-1 text-gray-500">
+                  {clause.beforeExcerpt && locateButton(location?.left ?? -1, beforeName)}
+                  {clause.afterExcerpt && locateButton(location?.right ?? -1, afterName)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visible.length === 0 && <p className="p-4 text-sm text-gray-400 italic">No sections match the filters.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ClauseComparisonTable;
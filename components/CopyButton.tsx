@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { Check, Copy, X } from 'lucide-react';
+
+interface CopyButtonProps {
+  text: string;
+  className?: string;
+}
+
+const TITLES = { idle: 'Copy to clipboard', copied: 'Copied', failed: 'Copy failed: the browser denied clipboard access' };
+
+const CopyButton: React.FC<CopyButtonProps> = ({ text, className }) => {
+  const [state, setState] = useState<keyof typeof TITLES>('idle');
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setState('copied');
+    } catch {
+      // Denied permission or an insecure context; shown on the button instead of failing silently
+      setState('failed');
+    }
+    setTimeout(() => setState('idle'), 1500);
+  };
+
+  return (
+    <button onClick={copy} className={className} title={TITLES[state]}>
+      {state === 'copied' ? <Check size={14} className="text-green-500" /> : state === 'failed' ? <X size={14} className="text-red-500" /> : <Copy size={14} />}
+    </button>
+  );
+};
+
+export default CopyButton;
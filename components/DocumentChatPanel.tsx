@@ -0,0 +1,255 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser, Loader2, MessageSquare, Send, Settings2, Square, X } from 'lucide-react';
+import { ChatMessage, DocumentChatConfig, DocumentPassage, LLMProvider, ModelTarget, WorkspaceDocument } from '../types';
+import { renderMarkdown } from '../services/markdown';
+
+interface DocumentChatPanelProps {
+  documents: WorkspaceDocument[];
+  messages: ChatMessage[];
+  loading: boolean;
+  config: DocumentChatConfig;
+  onConfigChange: (config: DocumentChatConfig) => void;
+  embeddingModel: ModelTarget;
+  onEmbeddingModelChange: (model: ModelTarget) => void;
+  onAsk: (question: string) => void;
+  onStop: () => void;
+  onClear: () => void;
+  t: (key: string) => string;
+}
+
+const CITATION_CLASS = 'inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 rounded bg-primary/15 text-primary text-[10px] font-bold align-super hover:bg-primary hover:text-white';
+
+const CITATION_RE = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Turns `[2]` and `[1, 3]` in text into buttons for passages that exist; other brackets,
+// code and attribute values are left alone
+const withCitations = (html: string, count: number) => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (!node.parentElement?.closest('code, pre')) textNodes.push(node);
+  }
+
+  for (const node of textNodes) {
+    const text = node.data;
+    const parts: (string | HTMLElement)[] = [];
+    let last = 0;
+    for (const match of text.matchAll(CITATION_RE)) {
+      const numbers = match[1].split(',').map(n => Number(n.trim()));
+      if (!numbers.every(n => n >= 1 && n <= count)) continue;
+      parts.push(text.slice(last, match.index));
+      numbers.forEach(n => {
+        const button = doc.createElement('button');
+        button.type = 'button';
+        button.dataset.cite = String(n);
+        button.className = CITATION_CLASS;
+        button.textContent = String(n);
+        parts.push(button);
+      });
+      last = match.index! + match[0].length;
+    }
+    if (last === 0) continue;
+    parts.push(text.slice(last));
+    node.replaceWith(...parts);
+  }
+  return doc.body.innerHTML;
+};
+
+// Where a passage sits in its document now; the text may have been edited since the answer
+const locatePassage = (passage: DocumentPassage, doc?: WorkspaceDocument) => {
+  if (!doc) return null;
+  if (doc.text.slice(passage.start, passage.end) === passage.text) return { start: passage.start, end: passage.end };
+  const start = doc.text.indexOf(passage.text);
+  return start >= 0 ? { start, end: start + passage.text.length } : null;
+};
+
+const SourceViewer: React.FC<{ passage: DocumentPassage; number: number; doc?: WorkspaceDocument; onClose: () => void }> = ({ passage, number, doc, onClose }) => {
+  const markRef = useRef<HTMLElement>(null);
+  const span = locatePassage(passage, doc);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [passage, span?.start]);
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <span className={CITATION_CLASS.replace('align-super', '')}>{number}</span>
+        <span className="font-semibold truncate">{doc?.name || passage.documentName}</span>
+        <button onClick={onClose} className="ml-auto p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800"><X size={14} /></button>
+      </div>
+      {!span && <p className="text-xs text-amber-500 mb-2">The document has changed since this answer; showing the passage as it was cited.</p>}
+      <div className="flex-1 overflow-y-auto p-3 rounded-lg bg-gray-50 dark:bg-black/30 text-sm whitespace-pre-wrap break-words">
+        {span && doc ? (
+          <>
+            <span className="text-gray-400">{doc.text.slice(0, span.start)}</span>
+            <mark ref={markRef} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5">{doc.text.slice(span.start, span.end)}</mark>
+            <span className="text-gray-400">{doc.text.slice(span.end)}</span>
+          </>
+        ) : passage.text}
+      </div>
+    </div>
+  );
+};
+
+const DocumentChatPanel: React.FC<DocumentChatPanelProps> = ({
+  documents, messages, loading, config, onConfigChange, embeddingModel, onEmbeddingModelChange, onAsk, onStop, onClear, t
+}) => {
+  const [question, setQuestion] = useState('');
+  const [showSettings, setShowSettings] = useState(false);
+  const [source, setSource] = useState<{ messageId: string; index: number } | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
+  const sourceMessage = source && messages.find(m => m.id === source.messageId);
+  const sourcePassage = sourceMessage?.passages?.[source!.index];
+
+  const ask = () => {
+    if (!question.trim() || loading) return;
+    onAsk(question.trim());
+    setQuestion('');
+  };
+
+  const openCitation = (message: ChatMessage, e: React.MouseEvent) => {
+    const cite = (e.target as HTMLElement).closest('[data-cite]');
+    if (cite) setSource({ messageId: message.id, index: Number(cite.getAttribute('data-cite')) - 1 });
+  };
+
+  return (
+    <div className="bg-surface rounded-2xl p-6 shadow-xl border border-gray-100 dark:border-gray-800 space-y-4">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="text-primary" />
+        <h3 className="font-bold text-lg">{t('documentChat')}</h3>
+        <div className="ml-auto flex gap-1">
+          <button onClick={() => setShowSettings(!showSettings)} className={`p-2 rounded-full ${showSettings ? 'bg-primary text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-800'}`} title="Retrieval settings">
+            <Settings2 size={16} />
+          </button>
+          <button onClick={() => { onClear(); setSource(null); }} disabled={messages.length === 0 || loading} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-800 disabled:opacity-30" title={t('clearChat')}>
+            <Eraser size={16} />
+          </button>
+        </div>
+      </div>
+
+      {showSettings && (
+        <div className="flex flex-wrap items-center gap-4 text-xs p-3 rounded-lg bg-gray-50 dark:bg-gray-900">
+          <label className="flex items-center gap-2">
+            Passages per question
+            <input
+              type="number" min={1} max={20} value={config.topK}
+              onChange={(e) => onConfigChange({ ...config, topK: Math.max(1, Math.min(20, Number(e.target.value) || 1)) })}
+              className="w-16 bg-transparent border border-gray-300 dark:border-gray-700 rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer" title="Combine keyword ranking with embedding similarity; passages are embedded once and reused">
+            <input type="checkbox" checked={config.useEmbeddings} onChange={(e) => onConfigChange({ ...config, useEmbeddings: e.target.checked })} className="accent-primary" />
+            Use embeddings
+          </label>
+          {config.useEmbeddings && (
+            <>
+              <select
+                value={embeddingModel.provider}
+                onChange={(e) => onEmbeddingModelChange({ ...embeddingModel, provider: e.target.value as LLMProvider })}
+                className="bg-transparent border border-gray-300 dark:border-gray-700 rounded px-2 py-1"
+              >
+                {Object.values(LLMProvider).map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+              <input
+                value={embeddingModel.model}
+                onChange={(e) => onEmbeddingModelChange({ ...embeddingModel, model: e.target.value })}
+                placeholder="Embedding model"
+                className="flex-1 min-w-[10rem] bg-transparent border border-gray-300 dark:border-gray-700 rounded px-2 py-1 font-mono"
+              />
+            </>
+          )}
+        </div>
+      )}
+
+      <div className={`grid gap-4 ${sourcePassage ? 'lg:grid-cols-2' : ''}`}>
+        <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-1">
+          {messages.length === 0 && (
+            <p className="text-sm text-gray-400 italic">
+              {documents.some(d => d.text.trim()) ? t('chatEmpty') : t('chatNoDocuments')}
+            </p>
+          )}
+          {messages.map(message => message.role === 'user' ? (
+            <div key={message.id} className="ml-auto max-w-[85%] w-fit px-4 py-2 rounded-2xl rounded-br-sm bg-primary text-white text-sm whitespace-pre-wrap">
+              {message.text}
+            </div>
+          ) : (
+            <div key={message.id} className="max-w-[95%] px-4 py-3 rounded-2xl rounded-bl-sm bg-gray-100 dark:bg-gray-800 text-sm space-y-2">
+              {message.error ? (
+                <p className="text-red-500">{message.error}</p>
+              ) : message.text ? (
+                <div
+                  className="markdown-body text-text"
+                  onClick={(e) => openCitation(message, e)}
+                  dangerouslySetInnerHTML={{ __html: withCitations(renderMarkdown(message.text), message.passages?.length || 0) }}
+                />
+              ) : (
+                <Loader2 size={14} className="animate-spin text-gray-400" />
+              )}
+              {message.passages && message.passages.length > 0 && (
+                <div className="flex flex-wrap gap-1 pt-1 border-t border-gray-200 dark:border-gray-700">
+                  {message.passages.map((p, i) => (
+                    <button
+                      key={i}
+                      onClick={() => setSource({ messageId: message.id, index: i })}
+                      className={`text-[10px] px-2 py-0.5 rounded-full ${source?.messageId === message.id && source.index === i ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-gray-700 hover:text-primary'}`}
+                      title={p.text.slice(0, 200)}
+                    >
+                      [{i + 1}] {p.documentName}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          <div ref={endRef} />
+        </div>
+
+        {sourcePassage && (
+          <div className="max-h-[60vh]">
+            <SourceViewer
+              passage={sourcePassage}
+              number={source!.index + 1}
+              doc={documents.find(d => d.id === sourcePassage.documentId)}
+              onClose={() => setSource(null)}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2 items-end">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              ask();
+            }
+          }}
+          rows={2}
+          placeholder={t('askDocuments')}
+          className="flex-1 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-3 text-sm resize-none outline-none focus:ring-2 focus:ring-primary"
+        />
+        {loading ? (
+          <button onClick={onStop} className="p-3 rounded-xl bg-red-500/10 text-red-500 hover:bg-red-500 hover:text-white" title="Stop">
+            <Square size={18} fill="currentColor" />
+          </button>
+        ) : (
+          <button onClick={ask} disabled={!question.trim()} className="p-3 rounded-xl bg-primary text-white disabled:opacity-40">
+            <Send size={18} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentChatPanel;
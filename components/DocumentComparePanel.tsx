@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeftRight, ChevronDown, ChevronUp, Grid3x3, ListChecks, Loader2, Sparkles, Square } from 'lucide-react';
+import { ChunkProgress, ClauseComparisonResult, DocumentNarrative, WorkspaceDocument } from '../types';
+import { DiffRow, diffDocuments, findExcerptRow, splitParagraphs } from '../services/documentDiff';
+import { DocumentSimilarity } from '../services/semanticSimilarity';
+import { DiffPart } from '../services/textDiff';
+import { renderMarkdown } from '../services/markdown';
+import ClauseComparisonTable from './ClauseComparisonTable';
+import SemanticSimilarityView from './SemanticSimilarityView';
+
+interface DocumentComparePanelProps {
+  documents: WorkspaceDocument[];
+  narrative: DocumentNarrative | null;
+  narrativeLoading: boolean;
+  narrativeProgress: ChunkProgress | null;
+  onRunNarrative: (before: WorkspaceDocument, after: WorkspaceDocument) => void;
+  onStopNarrative: () => void;
+  clauseResult: ClauseComparisonResult | null;
+  clausesLoading: boolean;
+  onRunClauses: (before: WorkspaceDocument, after: WorkspaceDocument) => void;
+  onStopClauses: () => void;
+  similarity: DocumentSimilarity | null;
+  similarityLoading: boolean;
+  onRunSimilarity: (before: WorkspaceDocument, after: WorkspaceDocument) => void;
+  onStopSimilarity: () => void;
+  t: (key: string) => string;
+}
+
+const ROW_STYLES: Record<DiffRow['type'], string> = {
+  equal: '',
+  modified: 'bg-amber-500/10',
+  added: 'bg-green-500/10',
+  removed: 'bg-red-500/10',
+  moved: 'bg-blue-500/10',
+};
+
+const selectClass = "bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-sm";
+
+// Renders one side of a word diff: the left shows removals, the right shows additions
+const WordSide: React.FC<{ parts: DiffPart[]; side: 'left' | 'right' }> = ({ parts, side }) => (
+  <>
+    {parts.filter(p => p.type !== (side === 'left' ? 'added' : 'removed')).map((p, i) =>
+      p.type === 'equal'
+        ? <span key={i}>{p.text}</span>
+        : <mark key={i} className={`rounded px-0.5 ${p.type === 'removed' ? 'bg-red-200 dark:bg-red-900/60 text-red-900 dark:text-red-100 line-through' : 'bg-green-200 dark:bg-green-900/60 text-green-900 dark:text-green-100'}`}>{p.text}</mark>
+    )}
+  </>
+);
+
+const Cell: React.FC<{ row: DiffRow; side: 'left' | 'right' }> = ({ row, side }) => {
+  const text = side === 'left' ? row.left : row.right;
+  if (text === undefined) {
+    return <div className="p-2 text-xs italic text-gray-400">{row.type === 'moved' ? `moved ${side === 'left' ? 'here' : 'from here'}` : ''}</div>;
+  }
+  return (
+    <div className="p-2 text-sm whitespace-pre-wrap break-words">
+      {row.type === 'moved' && <span className="mr-2 text-[10px] font-bold uppercase text-blue-500">moved #{row.moveId}</span>}
+      {row.words ? <WordSide parts={row.words} side={side} /> : text}
+    </div>
+  );
+};
+
+const DocumentComparePanel: React.FC<DocumentComparePanelProps> = ({
+  documents, narrative, narrativeLoading, narrativeProgress, onRunNarrative, onStopNarrative,
+  clauseResult, clausesLoading, onRunClauses, onStopClauses,
+  similarity, similarityLoading, onRunSimilarity, onStopSimilarity, t
+}) => {
+  const [leftId, setLeftId] = useState(documents[0]?.id);
+  const [rightId, setRightId] = useState(documents[1]?.id);
+  const [hunk, setHunk] = useState(0);
+  const [activeRow, setActiveRow] = useState<number | null>(null);
+  const rowRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const left = documents.find(d => d.id === leftId) || documents[0];
+  const right = documents.find(d => d.id === rightId) || documents[1] || documents[0];
+  const diff = useMemo(() => diffDocuments(left?.text || '', right?.text || ''), [left?.text, right?.text]);
+  const { stats, hunks } = diff;
+
+  // Results only apply to the pair they were computed for
+  const narrativeText = narrative && narrative.beforeId === left?.id && narrative.afterId === right?.id ? narrative.text : '';
+  const clauses = clauseResult && clauseResult.beforeId === left?.id && clauseResult.afterId === right?.id ? clauseResult.clauses : null;
+  const clauseLocations = useMemo(() => (clauses || []).map(c => ({
+    left: c.beforeExcerpt ? findExcerptRow(diff.rows, 'left', c.beforeExcerpt) : -1,
+    right: c.afterExcerpt ? findExcerptRow(diff.rows, 'right', c.afterExcerpt) : -1,
+  })), [clauses, diff]);
+
+  // The matrix is stale once either document's paragraphs change
+  const similarityFor = similarity && similarity.beforeId === left?.id && similarity.afterId === right?.id ? similarity : null;
+  const similarityStale = !!similarityFor && (
+    splitParagraphs(left.text).join('\n\n') !== similarityFor.before.join('\n\n') ||
+    splitParagraphs(right.text).join('\n\n') !== similarityFor.after.join('\n\n'));
+
+  useEffect(() => {
+    setHunk(0);
+    setActiveRow(null);
+  }, [diff]);
+
+  const scrollToRow = (row: number) => {
+    setActiveRow(row);
+    rowRefs.current[row]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const goTo = (index: number) => {
+    if (hunks.length === 0) return;
+    const next = (index + hunks.length) % hunks.length;
+    setHunk(next);
+    scrollToRow(hunks[next]);
+  };
+
+  if (!left || !right) return null;
+
+  return (
+    <div className="bg-surface rounded-2xl p-6 shadow-xl border border-gray-100 dark:border-gray-800 space-y-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <select value={left.id} onChange={(e) => setLeftId(e.target.value)} className={selectClass}>
+          {documents.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+        </select>
+        <button onClick={() => { setLeftId(right.id); setRightId(left.id); }} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-800" title="Swap">
+          <ArrowLeftRight size={16} />
+        </button>
+        <select value={right.id} onChange={(e) => setRightId(e.target.value)} className={selectClass}>
+          {documents.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+        </select>
+
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-xs font-mono text-gray-400">
+            {hunks.length === 0 ? 'No changes' : `Change ${hunk + 1} / ${hunks.length}`}
+          </span>
+          <button onClick={() => goTo(hunk - 1)} disabled={hunks.length === 0} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800 disabled:opacity-30"><ChevronUp size={16} /></button>
+          <button onClick={() => goTo(hunk + 1)} disabled={hunks.length === 0} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800 disabled:opacity-30"><ChevronDown size={16} /></button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs">
+        <span className="font-bold text-primary">{Math.round(stats.similarity * 100)}% similar</span>
+        <span className="text-amber-500">{stats.modified} modified</span>
+        <span className="text-green-500">{stats.added} added</span>
+        <span className="text-red-500">{stats.removed} removed</span>
+        <span className="text-blue-500">{stats.moved} moved</span>
+        <span className="text-gray-400">+{stats.wordsAdded} / −{stats.wordsRemoved} words</span>
+      </div>
+
+      <div className="max-h-[60vh] overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-800 divide-y divide-gray-200 dark:divide-gray-800">
+        {diff.rows.map((row, i) => (
+          <div
+            key={i}
+            ref={el => { rowRefs.current[i] = el; }}
+            className={`grid grid-cols-2 divide-x divide-gray-200 dark:divide-gray-800 ${ROW_STYLES[row.type]} ${activeRow === i ? 'ring-2 ring-primary ring-inset' : ''}`}
+          >
+            <Cell row={row} side="left" />
+            <Cell row={row} side="right" />
+          </div>
+        ))}
+        {diff.rows.length === 0 && <p className="p-4 text-sm text-gray-400 italic">Both documents are empty.</p>}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          {narrativeLoading ? (
+            <button onClick={onStopNarrative} className="px-4 py-2 bg-red-500/10 text-red-500 hover:bg-red-500 hover:text-white rounded-lg text-sm font-semibold flex items-center gap-2">
+              <Square size={14} fill="currentColor" /> Stop
+            </button>
+          ) : (
+            <button onClick={() => onRunNarrative(left, right)} className="px-4 py-2 bg-primary/10 text-primary hover:bg-primary hover:text-white rounded-lg text-sm font-semibold flex items-center gap-2">
+              <Sparkles size={14} /> {t('aiNarrative')}
+            </button>
+          )}
+          {narrativeLoading && (
+            <span className="text-xs text-gray-400 flex items-center gap-1">
+              <Loader2 size={12} className="animate-spin" />
+              {narrativeProgress && narrativeProgress.total > 1 ? `${narrativeProgress.completed} / ${narrativeProgress.total}` : 'streaming...'}
+            </span>
+          )}
+        </div>
+        {narrativeText && <div className="markdown-body text-text text-sm" dangerouslySetInnerHTML={{ __html: renderMarkdown(narrativeText) }} />}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          {clausesLoading ? (
+            <button onClick={onStopClauses} className="px-4 py-2 bg-red-500/10 text-red-500 hover:bg-red-500 hover:text-white rounded-lg text-sm font-semibold flex items-center gap-2">
+              <Square size={14} fill="currentColor" /> Stop
+            </button>
+          ) : (
+            <button onClick={() => onRunClauses(left, right)} className="px-4 py-2 bg-primary/10 text-primary hover:bg-primary hover:text-white rounded-lg text-sm font-semibold flex items-center gap-2">
+              <ListChecks size={14} /> {t('clauseComparison')}
+            </button>
+          )}
+          {clausesLoading && <Loader2 size={14} className="animate-spin text-gray-400" />}
+        </div>
+        {clauses && (
+          <ClauseComparisonTable
+            clauses={clauses}
+            locations={clauseLocations}
+            beforeName={left.name}
+            afterName={right.name}
+            onLocate={scrollToRow}
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          {similarityLoading ? (
+            <button onClick={onStopSimilarity} className="px-4 py-2 bg-red-500/10 text-red-500 hover:bg-red-500 hover:text-white rounded-lg text-sm font-semibold flex items-center gap-2">
+              <Square size={14} fill="currentColor" /> Stop
+            </button>
+          ) : (
+            <button onClick={() => onRunSimilarity(left, right)} className="px-4 py-2 bg-primary/10 text-primary hover:bg-primary hover:text-white rounded-lg text-sm font-semibold flex items-center gap-2">
+              <Grid3x3 size={14} /> {t('semanticSimilarity')}
+            </button>
+          )}
+          {similarityLoading && <Loader2 size={14} className="animate-spin text-gray-400" />}
+          {similarityStale && !similarityLoading && <span className="text-xs text-amber-500">The documents changed since this map was computed.</span>}
+        </div>
+        {similarityFor && <SemanticSimilarityView matrix={similarityFor} beforeName={left.name} afterName={right.name} />}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentComparePanel;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { WorkspaceDocument } from '../types';
+import { allTags, ContextEstimate } from '../services/documents';
+import { formatTokens } from './UsageBadge';
+
+interface DocumentContextPickerProps {
+  documents: WorkspaceDocument[];
+  documentIds: string[];
+  documentTags: string[];
+  estimate: ContextEstimate;
+  onChange: (selection: { documentIds: string[]; documentTags: string[] }) => void;
+  t: (key: string) => string;
+}
+
+const chipClass = (active: boolean) =>
+  `px-2 py-0.5 rounded-full text-xs transition-colors ${active ? 'bg-primary text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-500 hover:text-primary'}`;
+
+const toggle = (list: string[], item: string) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const DocumentContextPicker: React.FC<DocumentContextPickerProps> = ({ documents, documentIds, documentTags, estimate, onChange, t }) => {
+  const tags = allTags(documents);
+
+  return (
+    <div className="col-span-2 space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs uppercase text-gray-400 mr-1">Context:</span>
+        {documents.map(doc => {
+          // Documents pulled in by a selected tag are shown as selected but toggled through the tag
+          const byTag = doc.tags.some(tag => documentTags.includes(tag));
+          return (
+            <button
+              key={doc.id}
+              onClick={() => onChange({ documentIds: toggle(documentIds, doc.id), documentTags })}
+              className={`${chipClass(documentIds.includes(doc.id) || byTag)} ${byTag && !documentIds.includes(doc.id) ? 'opacity-70' : ''}`}
+            >
+              {doc.name}
+            </button>
+          );
+        })}
+        {tags.map(tag => (
+          <button key={tag} onClick={() => onChange({ documentIds, documentTags: toggle(documentTags, tag) })} className={chipClass(documentTags.includes(tag))}>
+            #{tag}
+          </button>
+        ))}
+      </div>
+      <p className={`text-xs font-mono flex items-center gap-1 ${estimate.exceeds ? 'text-amber-500' : 'text-gray-400'}`}>
+        {estimate.exceeds && <AlertTriangle size={12} />}
+        ~{formatTokens(estimate.tokens)} tokens{estimate.window ? ` / ${formatTokens(estimate.window)}` : ''}
+        {estimate.exceeds && <span className="font-sans"> · {t('contextTooLarge')}</span>}
+      </p>
+    </div>
+  );
+};
+
+export default DocumentContextPicker;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { FileText, Plus, Tag, Trash2, Upload } from 'lucide-react';
+import { WorkspaceDocument } from '../types';
+import { allTags, newDocumentId } from '../services/documents';
+import { combineFiles, ingestFiles, INGEST_ACCEPT } from '../services/ingestion';
+import { estimateTokens } from '../services/usageTracker';
+import { formatTokens } from './UsageBadge';
+import FileDropZone from './FileDropZone';
+
+interface DocumentLibraryProps {
+  documents: WorkspaceDocument[];
+  onChange: (update: (documents: WorkspaceDocument[]) => WorkspaceDocument[]) => void; // Applied to the latest list, uploads finish later
+  onError: (message: string) => void;
+  t: (key: string) => string;
+}
+
+const parseTags = (raw: string) => [...new Set(raw.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ documents, onChange, onError, t }) => {
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const tags = allTags(documents);
+  const visible = tagFilter ? documents.filter(doc => doc.tags.includes(tagFilter)) : documents;
+
+  const update = (id: string, patch: Partial<WorkspaceDocument>) =>
+    onChange(prev => prev.map(doc => doc.id === id ? { ...doc, ...patch } : doc));
+
+  const extract = async (files: File[]) => {
+    const result = await ingestFiles(files);
+    if (result.errors.length > 0) onError(result.errors.map(err => err.message).join('\n'));
+    return result.files;
+  };
+
+  const upload = async (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files || [])];
+    e.target.value = '';
+    const ingested = await extract(files);
+    if (ingested.length > 0) update(id, { text: combineFiles(ingested), fileName: ingested.map(f => f.name).join(', ') });
+  };
+
+  // Every dropped file becomes its own document
+  const addFiles = async (files: File[]) => {
+    const ingested = await extract(files);
+    if (ingested.length === 0) return;
+    onChange(prev => [
+      ...prev,
+      ...ingested.map(file => ({
+        id: newDocumentId(),
+        name: file.name.replace(/\.[^.]+$/, ''),
+        text: file.text,
+        tags: tagFilter ? [tagFilter] : [],
+        fileName: file.name
+      }))
+    ]);
+  };
+
+  const add = () => onChange(prev => [
+    ...prev,
+    { id: newDocumentId(), name: `Document ${prev.length + 1}`, text: '', tags: tagFilter ? [tagFilter] : [] }
+  ]);
+
+  return (
+    <FileDropZone onFiles={addFiles} className="space-y-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <h2 className="text-2xl font-serif font-bold mr-2">{t('documents')}</h2>
+        {tags.length > 0 && (
+          <>
+            <Tag size={14} className="text-gray-400" />
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                className={`px-2 py-0.5 rounded-full text-xs ${tagFilter === tag ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-gray-800'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </>
+        )}
+        <button onClick={add} className="ml-auto flex items-center gap-1 px-3 py-2 bg-gray-200 dark:bg-gray-800 rounded-full text-sm hover:bg-primary hover:text-white transition-colors">
+          <Plus size={16} /> {t('addDocument')}
+        </button>
+        <label className="cursor-pointer p-2 bg-gray-200 dark:bg-gray-800 rounded-full hover:bg-primary hover:text-white transition-colors" title={t('addFromFiles')}>
+          <Upload size={16} />
+          <input
+            type="file"
+            className="hidden"
+            multiple
+            accept={INGEST_ACCEPT}
+            onChange={(e) => {
+              addFiles([...(e.target.files || [])]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {visible.map(doc => (
+          <div key={doc.id} className="bg-surface rounded-2xl p-6 shadow-xl border border-gray-100 dark:border-gray-800 relative group">
+            <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+              <label className="cursor-pointer p-2 bg-gray-100 dark:bg-gray-700 rounded-full inline-flex" title={doc.fileName}>
+                <Upload size={16} />
+                <input type="file" className="hidden" multiple accept={INGEST_ACCEPT} onChange={(e) => upload(doc.id, e)} />
+              </label>
+              <button onClick={() => onChange(prev => prev.filter(d => d.id !== doc.id))} className="p-2 bg-gray-100 dark:bg-gray-700 rounded-full text-red-400 hover:text-red-600">
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <div className="flex items-center gap-2 mb-2 pr-24">
+              <FileText className="text-primary shrink-0" />
+              <input
+                value={doc.name}
+                onChange={(e) => update(doc.id, { name: e.target.value })}
+                className="text-lg font-bold bg-transparent border-b border-transparent hover:border-gray-300 focus:border-primary outline-none min-w-0 flex-1"
+              />
+            </div>
+            <input
+              // Parsed on blur so that typing a comma does not immediately drop the empty entry
+              key={doc.tags.join(',')}
+              defaultValue={doc.tags.join(', ')}
+              onBlur={(e) => update(doc.id, { tags: parseTags(e.target.value) })}
+              placeholder="Tags, comma separated"
+              className="w-full mb-3 bg-transparent text-xs text-gray-500 border-b border-gray-200 dark:border-gray-700 focus:border-primary outline-none py-1"
+            />
+            <textarea
+              value={doc.text}
+              onChange={(e) => update(doc.id, { text: e.target.value })}
+              className="w-full h-48 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-4 focus:ring-2 focus:ring-primary outline-none resize-none"
+              placeholder="Paste content..."
+            />
+            <div className="flex justify-between mt-2 text-xs text-gray-400 font-mono">
+              <span className="truncate">{doc.fileName}</span>
+              <span>{doc.text.length.toLocaleString()} chars · ~{formatTokens(estimateTokens(doc.text.length))} tokens</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </FileDropZone>
+  );
+};
+
+export default DocumentLibrary;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { LLMError } from '../services/errors';
+
+interface ErrorBannerProps {
+  error: Error | string;
+  onDismiss: () => void;
+  onOpenSettings: () => void;
+  t: (key: string) => string;
+}
+
+// Error kinds with an `errHint_<kind>` guidance entry in TRANSLATIONS
+const HINT_KINDS = new Set(['missingKey', 'quota', 'safety', 'malformedJson', 'network', 'timeout', 'server']);
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onDismiss, onOpenSettings, t }) => {
+  // Plain strings and untyped errors keep the original one-line banner
+  const kind = error instanceof LLMError ? error.kind : null;
+  const message = typeof error === 'string' ? error : error.message;
+  const hint = kind && HINT_KINDS.has(kind) ? t(`errHint_${kind}`) : null;
+
+  return (
+    <div className="mx-6 mb-6 p-4 bg-red-500/10 border border-red-500/50 text-red-500 rounded-xl flex justify-between items-start gap-4">
+      <div className="space-y-1 min-w-0">
+        {kind && <p className="font-bold">{t(`err_${kind}`)}</p>}
+        {hint && <p className="text-sm text-text">{hint}</p>}
+        <p className={`whitespace-pre-line ${kind ? 'text-xs opacity-80 break-words' : 'break-words'}`}>{message}</p>
+        {kind === 'missingKey' && (
+          <button onClick={onOpenSettings} className="mt-2 text-sm font-semibold underline">
+            {t('openSettings')}
+          </button>
+        )}
+      </div>
+      <button onClick={onDismiss}><X size={18}/></button>
+    </div>
+  );
+};
+
+export default ErrorBanner;
@@ -0,0 +1,52 @@
+import React, { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+
+interface FileDropZoneProps {
+  onFiles: (files: File[]) => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Accepts files dragged onto its children and shows an overlay while they hover
+const FileDropZone: React.FC<FileDropZoneProps> = ({ onFiles, className = '', children }) => {
+  const [dragging, setDragging] = useState(false);
+  // dragenter/dragleave also fire for every child element, so count them
+  const depth = useRef(0);
+
+  const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  return (
+    <div
+      className={`relative ${className}`}
+      onDragEnter={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        depth.current++;
+        setDragging(true);
+      }}
+      onDragOver={(e) => {
+        if (hasFiles(e)) e.preventDefault();
+      }}
+      onDragLeave={() => {
+        depth.current = Math.max(0, depth.current - 1);
+        if (depth.current === 0) setDragging(false);
+      }}
+      onDrop={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        depth.current = 0;
+        setDragging(false);
+        onFiles([...e.dataTransfer.files]);
+      }}
+    >
+      {children}
+      {dragging && (
+        <div className="absolute inset-0 z-10 rounded-2xl border-2 border-dashed border-primary bg-primary/10 flex items-center justify-center gap-2 text-primary font-semibold pointer-events-none">
+          <Upload size={20} /> Drop files to import
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileDropZone;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, SlidersHorizontal } from 'lucide-react';
+import { GenerationSettings } from '../types';
+
+interface GenerationSettingsEditorProps {
+  value: GenerationSettings;
+  onChange: (patch: GenerationSettings) => void;
+}
+
+const inputClass = "w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1 text-sm outline-none focus:ring-1 focus:ring-primary";
+
+// Empty input means "use the model default"
+const parseOptional = (raw: string, parse: (s: string) => number) => {
+  if (raw.trim() === '') return undefined;
+  const n = parse(raw);
+  return Number.isNaN(n) ? undefined : n;
+};
+
+const GenerationSettingsEditor: React.FC<GenerationSettingsEditorProps> = ({ value, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const numberField = (label: string, field: 'topP' | 'topK' | 'seed' | 'thinkingBudget', props: { min?: number; max?: number; step?: number; title?: string }) => (
+    <label className="text-xs text-gray-400" title={props.title}>
+      {label}
+      <input
+        type="number"
+        {...props}
+        value={value[field] ?? ''}
+        placeholder="default"
+        onChange={(e) => onChange({ [field]: parseOptional(e.target.value, field === 'topP' ? parseFloat : (s) => parseInt(s, 10)) })}
+        className={`${inputClass} mt-1`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mb-4">
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-1 text-xs uppercase font-bold text-gray-400 hover:text-primary">
+        {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <SlidersHorizontal size={14} /> Generation Settings
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3 animate-in slide-in-from-top-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs uppercase text-gray-400">Temperature:</span>
+            <input
+              type="range" min="0" max="2" step="0.05"
+              value={value.temperature ?? 1}
+              onChange={(e) => onChange({ temperature: parseFloat(e.target.value) })}
+              className="flex-1 accent-primary"
+            />
+            <span className="text-xs font-mono w-12 text-right">{value.temperature ?? '—'}</span>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {numberField('Top P', 'topP', { min: 0, max: 1, step: 0.05 })}
+            {numberField('Top K', 'topK', { min: 1, step: 1 })}
+            {numberField('Seed', 'seed', { step: 1 })}
+            {numberField('Thinking', 'thinkingBudget', { min: -1, step: 256, title: 'Thinking budget in tokens: 0 disables thinking, -1 lets the model decide' })}
+          </div>
+
+          <label className="block text-xs text-gray-400">
+            Stop Sequences (comma separated)
+            <input
+              // Parsed on blur so that typing a comma does not immediately drop the empty entry
+              key={(value.stopSequences || []).join('\u0000')}
+              defaultValue={(value.stopSequences || []).join(', ')}
+              onBlur={(e) => onChange({ stopSequences: e.target.value.split(',').map(s => s.trim()).filter(Boolean) })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          <label className="block text-xs text-gray-400">
+            System Instruction
+            <textarea
+              value={value.systemInstruction || ''}
+              onChange={(e) => onChange({ systemInstruction: e.target.value || undefined })}
+              className={`${inputClass} mt-1 h-16 resize-none`}
+              placeholder="Role, tone or rules applied to every run of this agent..."
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationSettingsEditor;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Braces, ChevronDown, ChevronRight, Download, Table } from 'lucide-react';
+import { downloadFile, findTabularRows, jsonToCsv } from '../services/exportUtils';
+
+interface JsonResultViewProps {
+  data: unknown;
+  filename: string; // Without extension
+}
+
+const JsonTree: React.FC<{ value: unknown; name?: string; depth?: number }> = ({ value, name, depth = 0 }) => {
+  const [open, setOpen] = useState(depth < 2);
+  const isContainer = typeof value === 'object' && value !== null;
+  const label = name !== undefined && <span className="text-primary font-semibold">{name}: </span>;
+
+  if (!isContainer) {
+    return (
+      <div className="pl-4">
+        {label}
+        <span className={typeof value === 'string' ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}>
+          {JSON.stringify(value)}
+        </span>
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as const) : Object.entries(value as object);
+  return (
+    <div className={depth > 0 ? 'pl-4' : ''}>
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-1 hover:text-primary">
+        {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        {label}
+        <span className="text-gray-400">{Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`}</span>
+      </button>
+      {open && entries.map(([k, v]) => <JsonTree key={k} name={k} value={v} depth={depth + 1} />)}
+    </div>
+  );
+};
+
+const cellText = (value: unknown) =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const JsonResultView: React.FC<JsonResultViewProps> = ({ data, filename }) => {
+  const rows = findTabularRows(data);
+  const [view, setView] = useState<'table' | 'tree'>(rows ? 'table' : 'tree');
+  const columns = rows ? [...new Set(rows.flatMap(r => Object.keys(r)))] : [];
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2 text-xs">
+        {rows && (
+          <>
+            <button onClick={() => setView('table')} className={`flex items-center gap-1 px-2 py-1 rounded ${view === 'table' ? 'bg-primary text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-800'}`}>
+              <Table size={12} /> Table
+            </button>
+            <button onClick={() => setView('tree')} className={`flex items-center gap-1 px-2 py-1 rounded ${view === 'tree' ? 'bg-primary text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-800'}`}>
+              <Braces size={12} /> Tree
+            </button>
+          </>
+        )}
+        <div className="ml-auto flex gap-2">
+          <button onClick={() => downloadFile(JSON.stringify(data, null, 2), `${filename}.json`, 'application/json')} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800">
+            <Download size={12} /> JSON
+          </button>
+          <button onClick={() => downloadFile(jsonToCsv(data), `${filename}.csv`, 'text/csv')} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800">
+            <Download size={12} /> CSV
+          </button>
+        </div>
+      </div>
+
+      {view === 'table' && rows ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr>{columns.map(c => <th key={c} className="text-left p-2 border border-gray-300 dark:border-gray-700 bg-gray-100 dark:bg-gray-800">{c}</th>)}</tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i}>{columns.map(c => <td key={c} className="p-2 border border-gray-300 dark:border-gray-700 align-top">{cellText(row[c])}</td>)}</tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="font-mono text-xs">
+          <JsonTree value={data} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JsonResultView;
@@ -1,115 +1,582 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { MindMapData, MindMapNode, MindMapLink } from '../types';
+import { Download, Link2, Link2Off, Merge, Pin, PinOff, Plus, Redo2, Trash2, Undo2, Upload } from 'lucide-react';
+import { MindMapData, MindMapLayout } from '../types';
+import { StaticLayout, computeLayout, edgeKey, pickRoot } from '../services/graphLayout';
+import { MindMapCommand, applyCommand } from '../services/mindMapEditor';
+import {
+  MIND_MAP_IMPORT_ACCEPT, MindMapExportFormat, importMindMap, renderMindMapPng, renderMindMapSvg, toGraphML, toMermaid, toMindMapJson, toOpml
+} from '../services/mindMapFormats';
+import { downloadFile } from '../services/exportUtils';
+import MindMapDetailsPanel from './MindMapDetailsPanel';
 
 interface MindMapProps {
   data: MindMapData;
   primaryColor: string;
+  onEdit?: (command: MindMapCommand) => void; // Read-only without it
+  onUndo?: () => void;
+  onRedo?: () => void;
+  undoLabel?: string; // Describes the command that would be undone; missing when there is none
+  redoLabel?: string;
+  onError?: (message: string) => void; // Failed imports, exports and refused renames
+  sourceText?: string; // The generating input, to show the passages behind nodes and links
 }
 
-const MindMap: React.FC<MindMapProps> = ({ data, primaryColor }) => {
+interface SimNode {
+  id: string;
+  group?: number;
+  pinned?: { x: number; y: number };
+  x?: number;
+  y?: number;
+  fx?: number | null; // Pinned position while dragged
+  fy?: number | null;
+}
+
+interface SimLink {
+  source: SimNode;
+  target: SimNode;
+  value: number;
+  label?: string;
+}
+
+const LAYOUTS: { id: MindMapLayout; label: string }[] = [
+  { id: 'force', label: 'Force' },
+  { id: 'radial', label: 'Radial' },
+  { id: 'tree', label: 'Tree' },
+  { id: 'cluster', label: 'Groups' },
+];
+
+const EXPORTS: { id: MindMapExportFormat; label: string }[] = [
+  { id: 'svg', label: 'SVG image' },
+  { id: 'png', label: 'PNG image' },
+  { id: 'json', label: 'JSON' },
+  { id: 'graphml', label: 'GraphML' },
+  { id: 'opml', label: 'OPML outline' },
+  { id: 'mermaid', label: 'Mermaid' },
+];
+const PNG_SCALES = [1, 2, 3, 4];
+const EXPORT_NAME = 'mind-map';
+
+const TRANSITION_MS = 750;
+const SELECTED_STROKE = '#f59e0b';
+// How close a shift-drag must end to a node to link to it
+const LINK_SNAP_DISTANCE = 24;
+
+const toolButton = 'flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800 disabled:opacity-30 disabled:pointer-events-none';
+
+const MindMap: React.FC<MindMapProps> = ({ data, primaryColor, onEdit, onUndo, onRedo, undoLabel, redoLabel, onError, sourceText = '' }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [layout, setLayout] = useState<MindMapLayout>('force');
+  const [pickedRoot, setPickedRoot] = useState<string | null>(null); // null: most central node
+  // Positions survive re-renders so every change animates from where the nodes are
+  const nodesRef = useRef(new Map<string, SimNode>());
+  // Fits the current drawing to a new size; set by the render effect, so resizing does not rebuild it
+  const resizeRef = useRef<((width: number, height: number) => void) | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [selectedLink, setSelectedLink] = useState<{ source: string; target: string } | null>(null);
+  const [newNode, setNewNode] = useState('');
+  const [rename, setRename] = useState('');
+  const [exportOpen, setExportOpen] = useState(false);
+  const [pngScale, setPngScale] = useState(2);
+  const editable = !!onEdit;
 
+  // Selections of nodes or links that an edit removed
   useEffect(() => {
-    if (!data || !svgRef.current || !containerRef.current) return;
+    setSelected(prev => prev.filter(id => data.nodes.some(n => n.id === id)));
+    setSelectedLink(prev => prev && data.links.some(l => edgeKey(l.source, l.target) === edgeKey(prev.source, prev.target)) ? prev : null);
+  }, [data]);
+
+  useEffect(() => setRename(selected.length === 1 ? selected[0] : ''), [selected]);
 
-    const width = containerRef.current.clientWidth;
-    const height = 600;
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
 
-    // Clear previous
-    d3.select(svgRef.current).selectAll("*").remove();
+  const autoRoot = useMemo(() => pickRoot(data), [data]);
+  const root = pickedRoot && data.nodes.some(n => n.id === pickedRoot) ? pickedRoot : autoRoot;
+  const sizeRef = useRef(size);
+  sizeRef.current = size;
+  const hasSize = size.width > 0 && size.height > 0;
 
-    const svg = d3.select(svgRef.current)
-      .attr("width", width)
-      .attr("height", height)
-      .attr("viewBox", [0, 0, width, height])
-      .attr("style", "max-width: 100%; height: auto;");
+  // Before the render effect, so a first size only draws once
+  useEffect(() => {
+    const { width, height } = size;
+    if (!svgRef.current || !width || !height) return;
+    d3.select(svgRef.current).attr("width", width).attr("height", height).attr("viewBox", [0, 0, width, height]);
+    resizeRef.current?.(width, height);
+  }, [size]);
 
-    // Simulation setup
-    const simulation = d3.forceSimulation(data.nodes as d3.SimulationNodeDatum[])
-      .force("link", d3.forceLink(data.links).id((d: any) => d.id).distance(100))
-      .force("charge", d3.forceManyBody().strength(-300))
-      .force("center", d3.forceCenter(width / 2, height / 2));
+  useEffect(() => {
+    const { width, height } = sizeRef.current;
+    if (!data || !svgRef.current || !hasSize) return;
 
-    // Links
-    const link = svg.append("g")
+    // Copies, because the simulation writes positions into its nodes and resolves link ends to objects
+    const previous = nodesRef.current;
+    const nodes: SimNode[] = data.nodes.map(n => ({
+      id: n.id,
+      group: n.group,
+      pinned: n.pinned,
+      x: n.pinned?.x ?? previous.get(n.id)?.x,
+      y: n.pinned?.y ?? previous.get(n.id)?.y,
+      fx: n.pinned?.x,
+      fy: n.pinned?.y,
+    }));
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    nodesRef.current = byId;
+    const links: SimLink[] = data.links
+      .filter(l => byId.has(l.source) && byId.has(l.target))
+      .map(l => ({ source: byId.get(l.source)!, target: byId.get(l.target)!, value: l.value, label: l.label }));
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    svg.attr("width", width).attr("height", height).attr("viewBox", [0, 0, width, height]);
+
+    // Rebuilt after every edit, so carry over the current pan and zoom
+    const scene = svg.append("g").attr("transform", d3.zoomTransform(svgRef.current).toString());
+    svg.call(d3.zoom<SVGSVGElement, unknown>().scaleExtent([0.2, 4]).on("zoom", (event) => scene.attr("transform", event.transform)));
+    svg.on("click", () => {
+      setSelected([]);
+      setSelectedLink(null);
+    });
+
+    const groupColor = d3.scaleOrdinal(d3.schemeTableau10);
+    const layoutAt = (w: number, h: number) => layout === 'force' || !root ? null : computeLayout(data, layout, root, w, h);
+    const staticLayout = layoutAt(width, height);
+    const inTree = (l: SimLink) => !staticLayout || layout === 'cluster' || staticLayout.treeEdges.has(edgeKey(l.source.id, l.target.id));
+
+    const link = scene.append("g")
       .attr("stroke", "#999")
-      .attr("stroke-opacity", 0.6)
       .selectAll("line")
-      .data(data.links)
+      .data(links)
       .join("line")
+      .attr("class", "link")
+      .attr("stroke-opacity", (d) => inTree(d) ? 0.6 : 0.2)
+      .attr("stroke-dasharray", (d) => inTree(d) ? null : "4 4")
       .attr("stroke-width", (d) => Math.sqrt(d.value));
 
-    // Nodes
-    const node = svg.append("g")
-      .attr("stroke", "#fff")
-      .attr("stroke-width", 1.5)
-      .selectAll("circle")
-      .data(data.nodes)
-      .join("circle")
-      .attr("r", 10)
-      .attr("fill", primaryColor)
-      .call(drag(simulation));
-
-    // Labels
-    const text = svg.append("g")
+    // Wide transparent twins of the links make them easy to click
+    const linkHit = scene.append("g")
+      .attr("stroke", "transparent")
+      .attr("stroke-width", 12)
+      .selectAll("line")
+      .data(editable ? links : [])
+      .join("line")
+      .style("cursor", "pointer")
+      .on("click", (event, d) => {
+        event.stopPropagation();
+        setSelected([]);
+        setSelectedLink({ source: d.source.id, target: d.target.id });
+      });
+
+    const linkLabel = scene.append("g")
+      .attr("font-size", "10px")
+      .attr("fill", "currentColor")
+      .attr("fill-opacity", 0.6)
+      .attr("text-anchor", "middle")
+      .attr("pointer-events", "none")
       .selectAll("text")
-      .data(data.nodes)
+      .data(links.filter(l => l.label))
       .join("text")
+      .text((d) => d.label!);
+
+    const linkPreview = scene.append("line")
+      .attr("stroke", SELECTED_STROKE)
+      .attr("stroke-width", 2)
+      .attr("stroke-dasharray", "4 4")
+      .attr("display", "none");
+
+    const node = scene.append("g")
+      .selectAll<SVGGElement, SimNode>("g")
+      .data(nodes)
+      .join("g")
+      .attr("class", "node")
+      .style("cursor", "pointer")
+      .on("click", (event, d) => {
+        event.stopPropagation();
+        setSelectedLink(null);
+        setSelected(prev => event.shiftKey
+          ? (prev.includes(d.id) ? prev.filter(id => id !== d.id) : [...prev, d.id])
+          : [d.id]);
+      })
+      .on("dblclick", (event, d) => {
+        event.stopPropagation();
+        setPickedRoot(d.id);
+      });
+
+    node.append("title").text(editable
+      ? "Click to select, Shift+click to add to the selection, Shift+drag to another node to link, double-click to make this the root"
+      : "Double-click to make this the root");
+
+    node.append("circle")
+      .attr("r", (d) => d.id === root && layout !== 'force' && layout !== 'cluster' ? 14 : 10)
+      .attr("fill", (d) => layout === 'cluster' ? groupColor(String(d.group ?? 0)) : primaryColor)
+      .attr("stroke", "#fff")
+      .attr("stroke-width", 1.5)
+      .attr("stroke-dasharray", (d) => d.pinned ? "3 2" : null);
+
+    node.append("text")
       .text((d) => d.id)
       .attr("font-size", "12px")
       .attr("fill", "currentColor")
       .attr("dx", 15)
       .attr("dy", 4);
 
-    simulation.on("tick", () => {
+    const draw = () => {
       link
-        .attr("x1", (d: any) => d.source.x)
-        .attr("y1", (d: any) => d.source.y)
-        .attr("x2", (d: any) => d.target.x)
-        .attr("y2", (d: any) => d.target.y);
-
-      node
-        .attr("cx", (d: any) => d.x)
-        .attr("cy", (d: any) => d.y);
-      
-      text
-        .attr("x", (d: any) => d.x)
-        .attr("y", (d: any) => d.y);
-    });
+        .attr("x1", (d) => d.source.x!)
+        .attr("y1", (d) => d.source.y!)
+        .attr("x2", (d) => d.target.x!)
+        .attr("y2", (d) => d.target.y!);
+      node.attr("transform", (d) => `translate(${d.x},${d.y})`);
+      linkLabel
+        .attr("x", (d) => (d.source.x! + d.target.x!) / 2)
+        .attr("y", (d) => (d.source.y! + d.target.y!) / 2 - 3);
+      linkHit
+        .attr("x1", (d) => d.source.x!)
+        .attr("y1", (d) => d.source.y!)
+        .attr("x2", (d) => d.target.x!)
+        .attr("y2", (d) => d.target.y!);
+    };
 
-    function drag(simulation: d3.Simulation<d3.SimulationNodeDatum, undefined>) {
-      function dragstarted(event: any) {
-        if (!event.active) simulation.alphaTarget(0.3).restart();
-        event.subject.fx = event.subject.x;
-        event.subject.fy = event.subject.y;
-      }
+    // Shift+drag draws a link; a plain drag moves the node and updates its pin if it has one
+    const drag = (simulation?: d3.Simulation<SimNode, undefined>) => {
+      let linking = false;
+      return d3.drag<SVGGElement, SimNode>()
+        .on("start", (event) => {
+          linking = editable && event.sourceEvent?.shiftKey;
+          if (linking) {
+            linkPreview.attr("display", null).attr("x1", event.subject.x).attr("y1", event.subject.y).attr("x2", event.x).attr("y2", event.y);
+            return;
+          }
+          if (simulation && !event.active) simulation.alphaTarget(0.3).restart();
+          event.subject.fx = event.subject.x;
+          event.subject.fy = event.subject.y;
+        })
+        .on("drag", (event) => {
+          if (linking) {
+            linkPreview.attr("x2", event.x).attr("y2", event.y);
+            return;
+          }
+          event.subject.fx = event.x;
+          event.subject.fy = event.y;
+          if (!simulation) {
+            event.subject.x = event.x;
+            event.subject.y = event.y;
+            draw();
+          }
+        })
+        .on("end", (event) => {
+          const subject: SimNode = event.subject;
+          if (linking) {
+            linkPreview.attr("display", "none");
+            const target = nodes.find(n => n !== subject && Math.hypot(n.x! - event.x, n.y! - event.y) < LINK_SNAP_DISTANCE);
+            if (target) onEdit?.({ type: 'addLink', source: subject.id, target: target.id });
+            return;
+          }
+          if (simulation && !event.active) simulation.alphaTarget(0);
+          if (subject.pinned && editable) {
+            onEdit?.({ type: 'pinNode', id: subject.id, position: { x: event.x, y: event.y } });
+          } else {
+            subject.fx = null;
+            subject.fy = null;
+          }
+        });
+    };
 
-      function dragged(event: any) {
-        event.subject.fx = event.x;
-        event.subject.fy = event.y;
-      }
+    if (!staticLayout) {
+      const hadPositions = nodes.some(n => n.x !== undefined);
+      nodes.forEach(n => {
+        n.x ??= width / 2 + (Math.random() - 0.5) * 50;
+        n.y ??= height / 2 + (Math.random() - 0.5) * 50;
+      });
+      const simulation = d3.forceSimulation(nodes)
+        .force("link", d3.forceLink<SimNode, SimLink>(links).distance(100))
+        .force("charge", d3.forceManyBody().strength(-300))
+        .force("center", d3.forceCenter(width / 2, height / 2))
+        .force("collide", d3.forceCollide(18))
+        // Settle gently when coming from another layout instead of exploding from the centre
+        .alpha(hadPositions ? 0.3 : 1)
+        .on("tick", draw);
+      node.call(drag(simulation));
+      draw();
+      resizeRef.current = (w, h) => {
+        simulation.force("center", d3.forceCenter(w / 2, h / 2)).alpha(0.3).restart();
+      };
+      return () => {
+        simulation.stop();
+        resizeRef.current = null;
+      };
+    }
 
-      function dragended(event: any) {
-        if (!event.active) simulation.alphaTarget(0);
-        event.subject.fx = null;
-        event.subject.fy = null;
-      }
+    node.call(drag());
+    const moveTo = (target: StaticLayout, w: number, h: number) => {
+      const from = new Map(nodes.map(n => [n.id, { x: n.x, y: n.y }]));
+      svg.transition()
+        .duration(TRANSITION_MS)
+        .ease(d3.easeCubicInOut)
+        .tween("layout", () => (t: number) => {
+          nodes.forEach(n => {
+            const end = n.pinned || target.positions.get(n.id) || { x: w / 2, y: h / 2 };
+            const start = from.get(n.id)!;
+            // Nodes new to the map appear at their place instead of flying in
+            n.x = start.x === undefined ? end.x : start.x + (end.x - start.x) * t;
+            n.y = start.y === undefined ? end.y : start.y + (end.y - start.y) * t;
+          });
+          draw();
+        });
+    };
+    moveTo(staticLayout, width, height);
+    resizeRef.current = (w, h) => {
+      const resized = layoutAt(w, h);
+      if (resized) moveTo(resized, w, h);
+    };
+    return () => {
+      svg.interrupt();
+      resizeRef.current = null;
+    };
+  }, [data, primaryColor, layout, root, hasSize, editable]);
 
-      return d3.drag()
-        .on("start", dragstarted)
-        .on("drag", dragged)
-        .on("end", dragended);
+  // Selection is styled separately so that selecting does not restart the layout
+  useEffect(() => {
+    const svg = d3.select(svgRef.current);
+    svg.selectAll<SVGGElement, SimNode>("g.node").select("circle")
+      .attr("stroke", (d) => selected.includes(d.id) ? SELECTED_STROKE : "#fff")
+      .attr("stroke-width", (d) => selected.includes(d.id) ? 3 : 1.5);
+    const linkKey = selectedLink && edgeKey(selectedLink.source, selectedLink.target);
+    svg.selectAll<SVGLineElement, SimLink>("line.link")
+      .attr("stroke", (d) => edgeKey(d.source.id, d.target.id) === linkKey ? SELECTED_STROKE : null);
+  }, [selected, selectedLink, data, primaryColor, layout, root, hasSize, editable]);
+
+  const groups = [...new Set<number>(data.nodes.map(n => n.group ?? 0))].sort((a, b) => a - b);
+  const selectedNodes = data.nodes.filter(n => selected.includes(n.id));
+  const sharedGroup = selectedNodes.every(n => (n.group ?? 0) === (selectedNodes[0]?.group ?? 0)) ? selectedNodes[0]?.group ?? 0 : '';
+  const pair = selected.length === 2 && data.links.find(l => edgeKey(l.source, l.target) === edgeKey(selected[0], selected[1]));
+
+  const addNode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newNode.trim()) return;
+    onEdit?.({ type: 'addNode', id: newNode, group: selectedNodes[0]?.group });
+    setNewNode('');
+  };
+
+  const renameNode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const [id] = selected;
+    const to = rename.trim();
+    if (!to || to === id) return;
+    const command: MindMapCommand = { type: 'renameNode', id, to };
+    // Refused renames, such as to a name already taken, leave the positions untouched
+    try {
+      applyCommand(data, command);
+    } catch (err: any) {
+      onError?.(err.message);
+      return;
     }
+    // Keep the node where it is under its new name
+    const position = nodesRef.current.get(id);
+    if (position) nodesRef.current.set(to, position);
+    onEdit?.(command);
+    setSelected([to]);
+  };
+
+  const togglePin = () => {
+    const node = selectedNodes[0];
+    const position = nodesRef.current.get(node.id);
+    if (node.pinned) onEdit?.({ type: 'pinNode', id: node.id, position: null });
+    else if (position?.x !== undefined && position.y !== undefined) onEdit?.({ type: 'pinNode', id: node.id, position: { x: position.x, y: position.y } });
+  };
 
-  }, [data, primaryColor]);
+  const currentPositions = () => new Map([...nodesRef.current.values()]
+    .filter(n => n.x !== undefined && n.y !== undefined)
+    .map(n => [n.id, { x: n.x!, y: n.y! }]));
+
+  const exportAs = async (format: MindMapExportFormat) => {
+    setExportOpen(false);
+    try {
+      switch (format) {
+        case 'svg':
+          return downloadFile(renderMindMapSvg(svgRef.current!).markup, `${EXPORT_NAME}.svg`, 'image/svg+xml');
+        case 'png':
+          return downloadFile(await renderMindMapPng(renderMindMapSvg(svgRef.current!), pngScale), `${EXPORT_NAME}.png`, 'image/png');
+        case 'json':
+          return downloadFile(toMindMapJson(data, currentPositions()), `${EXPORT_NAME}.json`, 'application/json');
+        case 'graphml':
+          return downloadFile(toGraphML(data, currentPositions()), `${EXPORT_NAME}.graphml`, 'application/graphml+xml');
+        case 'opml':
+          return downloadFile(toOpml(data, 'Mind map'), `${EXPORT_NAME}.opml`, 'text/x-opml');
+        case 'mermaid':
+          return downloadFile(toMermaid(data), `${EXPORT_NAME}.mmd`, 'text/plain');
+      }
+    } catch (err: any) {
+      onError?.(err.message);
+    }
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importMindMap(file.name, await file.text());
+      // Start from the file's own placement where it has one
+      imported.positions.forEach((p, id) => nodesRef.current.set(id, { id, ...p }));
+      onEdit?.({ type: 'replace', data: imported.data, label: `Import ${file.name}` });
+    } catch (err: any) {
+      onError?.(err.message);
+    }
+  };
 
   return (
-    <div ref={containerRef} className="w-full bg-white/5 dark:bg-black/20 rounded-xl overflow-hidden border border-white/10 shadow-inner">
-      <svg ref={svgRef}></svg>
+    <div className="flex flex-col h-full min-h-0 gap-2">
+      <div className="flex items-center gap-2 flex-wrap text-xs px-2 pt-1">
+        {LAYOUTS.map(l => (
+          <button
+            key={l.id}
+            onClick={() => setLayout(l.id)}
+            className={`px-3 py-1 rounded-full font-semibold ${layout === l.id ? 'bg-primary text-white' : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+          >
+            {l.label}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          {(layout === 'radial' || layout === 'tree') && (
+            <label className="flex items-center gap-2 text-gray-500">
+              Root
+              <select
+                value={pickedRoot ?? ''}
+                onChange={(e) => setPickedRoot(e.target.value || null)}
+                className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1 max-w-[12rem]"
+              >
+                <option value="">Auto ({autoRoot ?? '—'})</option>
+                {data.nodes.map(n => <option key={n.id} value={n.id}>{n.id}</option>)}
+              </select>
+            </label>
+          )}
+          {editable && (
+            <label className={`${toolButton} cursor-pointer`} title="Import JSON, GraphML, OPML, Mermaid or a Markdown outline">
+              <Upload size={14} /> Import
+              <input type="file" className="hidden" accept={MIND_MAP_IMPORT_ACCEPT} onChange={importFile} />
+            </label>
+          )}
+          <div className="relative">
+            <button onClick={() => setExportOpen(!exportOpen)} disabled={data.nodes.length === 0} className={toolButton}>
+              <Download size={14} /> Export
+            </button>
+            {exportOpen && (
+              <div className="absolute right-0 mt-1 z-10 w-44 py-1 bg-surface border border-gray-200 dark:border-gray-700 rounded-lg shadow-xl">
+                {EXPORTS.map(f => (
+                  <div key={f.id} className="flex items-center">
+                    <button onClick={() => exportAs(f.id)} className="flex-1 text-left px-3 py-1.5 hover:bg-gray-100 dark:hover:bg-gray-800">
+                      {f.label}
+                    </button>
+                    {f.id === 'png' && (
+                      <select
+                        value={pngScale}
+                        onChange={(e) => setPngScale(Number(e.target.value))}
+                        className="mr-2 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-1"
+                        title="Resolution"
+                      >
+                        {PNG_SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+                      </select>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+      {editable && (
+        <div className="flex items-center gap-1 flex-wrap text-xs px-2">
+          <button onClick={onUndo} disabled={!undoLabel} className={toolButton} title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}>
+            <Undo2 size={14} />
+          </button>
+          <button onClick={onRedo} disabled={!redoLabel} className={toolButton} title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+            <Redo2 size={14} />
+          </button>
+          <form onSubmit={addNode} className="flex items-center gap-1 ml-2">
+            <input value={newNode} onChange={(e) => setNewNode(e.target.value)} placeholder="New node" className="w-28 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1" />
+            <button type="submit" disabled={!newNode.trim()} className={toolButton} title="Add node"><Plus size={14} /></button>
+          </form>
+
+          {selected.length === 1 && (
+            <>
+              <form onSubmit={renameNode} className="ml-2">
+                <input value={rename} onChange={(e) => setRename(e.target.value)} onBlur={renameNode} title="Rename" className="w-32 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1" />
+              </form>
+              <button onClick={togglePin} className={toolButton} title={selectedNodes[0]?.pinned ? 'Unpin' : 'Pin at its current position'}>
+                {selectedNodes[0]?.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+              </button>
+            </>
+          )}
+          {selected.length >= 2 && (
+            <button onClick={() => onEdit({ type: 'mergeNodes', ids: selected, into: selected[0] })} className={toolButton} title={`Merge into "${selected[0]}"`}>
+              <Merge size={14} /> Merge
+            </button>
+          )}
+          {selected.length === 2 && (
+            <button
+              onClick={() => onEdit(pair ? { type: 'deleteLink', source: selected[0], target: selected[1] } : { type: 'addLink', source: selected[0], target: selected[1] })}
+              className={toolButton}
+            >
+              {pair ? <><Link2Off size={14} /> Unlink</> : <><Link2 size={14} /> Link</>}
+            </button>
+          )}
+          {selected.length > 0 && (
+            <>
+              <select
+                value={sharedGroup}
+                onChange={(e) => onEdit({ type: 'setGroup', ids: selected, group: Number(e.target.value) })}
+                className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1"
+                title="Group"
+              >
+                {sharedGroup === '' && <option value="">Mixed groups</option>}
+                {groups.map(g => <option key={g} value={g}>Group {g}</option>)}
+                <option value={Math.max(0, ...groups) + 1}>New group</option>
+              </select>
+              <button onClick={() => onEdit({ type: 'deleteNodes', ids: selected })} className={`${toolButton} text-red-500`} title="Delete selected nodes">
+                <Trash2 size={14} />
+              </button>
+            </>
+          )}
+          {selectedLink && (
+            <button onClick={() => onEdit({ type: 'deleteLink', ...selectedLink })} className={`${toolButton} text-red-500`}>
+              <Link2Off size={14} /> Delete link
+            </button>
+          )}
+        </div>
+      )}
+      <div className="flex-1 min-h-0 flex gap-2">
+        <div ref={containerRef} className="flex-1 min-w-0 bg-white/5 dark:bg-black/20 rounded-xl overflow-hidden border border-white/10 shadow-inner">
+          <svg ref={svgRef} className="block"></svg>
+        </div>
+        {(selected.length === 1 || selectedLink) && (
+          <div className="w-80 shrink-0 min-h-0 p-3 rounded-xl border border-gray-200 dark:border-gray-700 overflow-y-auto">
+            <MindMapDetailsPanel
+              data={data}
+              nodeId={selected.length === 1 ? selected[0] : undefined}
+              link={selectedLink || undefined}
+              sourceText={sourceText}
+              onSelectNode={(id) => {
+                setSelectedLink(null);
+                setSelected([id]);
+              }}
+              onClose={() => {
+                setSelected([]);
+                setSelectedLink(null);
+              }}
+            />
+          </div>
+        )}
+      </div>
     </div>
   );
 };
 
-export default MindMap;
\ No newline at end of file
+export default MindMap;
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, X } from 'lucide-react';
+import { MindMapData, SourceSnippet } from '../types';
+import { resolveSnippet } from '../services/sourceSnippets';
+
+interface MindMapDetailsPanelProps {
+  data: MindMapData;
+  nodeId?: string; // Either a node or a link is shown
+  link?: { source: string; target: string };
+  sourceText: string; // The input the map was generated from
+  onSelectNode: (id: string) => void;
+  onClose: () => void;
+}
+
+const MARK_CLASS = 'rounded px-0.5 text-gray-900 dark:text-gray-100';
+
+// Non-overlapping highlight ranges in text order, each remembering which snippet it shows
+const highlightRanges = (spans: (SourceSnippet | null)[]) => {
+  const ranges = spans
+    .map((span, index) => span && { ...span, index })
+    .filter((r): r is SourceSnippet & { index: number } => !!r)
+    .sort((a, b) => a.start - b.start);
+  return ranges.filter((r, i) => ranges.slice(0, i).every(prev => prev.end <= r.start));
+};
+
+const MindMapDetailsPanel: React.FC<MindMapDetailsPanelProps> = ({ data, nodeId, link, sourceText, onSelectNode, onClose }) => {
+  const [active, setActive] = useState(0);
+  const activeRef = useRef<HTMLElement>(null);
+
+  const node = nodeId !== undefined ? data.nodes.find(n => n.id === nodeId) : undefined;
+  // The clicked direction first; the canvas draws both directions of a pair as one line
+  const edge = link && (data.links.find(l => l.source === link.source && l.target === link.target)
+    || data.links.find(l => l.source === link.target && l.target === link.source));
+  const snippets = (node ? node.sources : edge?.sources) || [];
+  const spans = snippets.map(snippet => resolveSnippet(sourceText, snippet));
+  const ranges = highlightRanges(spans);
+  const connections = node ? data.links.filter(l => l.source === node.id || l.target === node.id) : [];
+
+  useEffect(() => setActive(0), [nodeId, link?.source, link?.target]);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [active, nodeId, link?.source, link?.target, sourceText]);
+
+  if (!node && !edge) return null;
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(range => {
+    segments.push(sourceText.slice(cursor, range.start));
+    const isActive = range.index === active;
+    segments.push(
+      <mark
+        key={range.index}
+        ref={isActive ? activeRef : undefined}
+        onClick={() => setActive(range.index)}
+        className={`${MARK_CLASS} cursor-pointer ${isActive ? 'bg-yellow-300 dark:bg-yellow-600/80' : 'bg-yellow-100 dark:bg-yellow-800/40'}`}
+      >
+        {sourceText.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  segments.push(sourceText.slice(cursor));
+
+  return (
+    <div className="flex flex-col min-h-0 h-full gap-3 text-sm">
+      <div className="flex items-start gap-2">
+        <div className="min-w-0">
+          {node ? (
+            <>
+              <h4 className="font-bold break-words">{node.id}</h4>
+              {node.group !== undefined && <span className="text-xs text-gray-500">Group {node.group}</span>}
+            </>
+          ) : (
+            <h4 className="font-bold break-words">
+              {edge!.source} <span className="font-normal italic text-gray-500">{edge!.label || 'related to'}</span> {edge!.target}
+            </h4>
+          )}
+        </div>
+        <button onClick={onClose} className="ml-auto p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-800"><X size={14} /></button>
+      </div>
+
+      {node?.description && <p className="text-gray-600 dark:text-gray-300">{node.description}</p>}
+
+      {connections.length > 0 && (
+        <div>
+          <h5 className="text-xs font-semibold uppercase text-gray-500 mb-1">Connections</h5>
+          <ul className="space-y-1 max-h-32 overflow-y-auto">
+            {connections.map(l => {
+              const outgoing = l.source === node!.id;
+              const other = outgoing ? l.target : l.source;
+              return (
+                <li key={`${l.source}\u0000${l.target}`} className="flex items-center gap-1 text-xs">
+                  {outgoing ? <ArrowRight size={12} className="shrink-0 text-gray-400" /> : <ArrowLeft size={12} className="shrink-0 text-gray-400" />}
+                  {l.label && <span className="italic text-gray-500">{l.label}</span>}
+                  <button onClick={() => onSelectNode(other)} className="text-primary hover:underline truncate">{other}</button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h5 className="text-xs font-semibold uppercase text-gray-500 mb-1">Evidence</h5>
+        {snippets.length === 0 ? (
+          <p className="text-xs text-gray-400">No supporting passages were recorded.</p>
+        ) : (
+          <ol className="space-y-1">
+            {snippets.map((snippet, i) => (
+              <li key={i}>
+                <button
+                  onClick={() => setActive(i)}
+                  className={`w-full text-left text-xs p-2 rounded border ${i === active ? 'border-primary bg-primary/5' : 'border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                >
+                  <span className="line-clamp-3">“{snippet.text}”</span>
+                  {!spans[i] && <span className="block mt-1 text-amber-500">Not found in the current input</span>}
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {ranges.length > 0 && (
+        <div className="flex-1 min-h-[8rem] overflow-y-auto p-3 rounded-lg bg-gray-50 dark:bg-black/30 text-xs whitespace-pre-wrap break-words text-gray-500">
+          {segments}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MindMapDetailsPanel;
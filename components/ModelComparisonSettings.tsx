@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Columns3 } from 'lucide-react';
+import { LLMModelInfo, ModelComparisonConfig, ModelTarget } from '../types';
+import ModelSelect from './ModelSelect';
+
+interface ModelComparisonSettingsProps {
+  value: ModelComparisonConfig | undefined;
+  models: LLMModelInfo[];
+  fallbackJudge: ModelTarget; // Preselected when the judge is first switched on
+  onChange: (config: ModelComparisonConfig) => void;
+}
+
+const inputClass = "w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1 text-sm outline-none focus:ring-1 focus:ring-primary";
+
+const sameTarget = (a: ModelTarget, b: ModelTarget) => a.provider === b.provider && a.model === b.model;
+
+const ModelComparisonSettings: React.FC<ModelComparisonSettingsProps> = ({ value, models, fallbackJudge, onChange }) => {
+  const [open, setOpen] = useState(!!value?.enabled);
+  const config: ModelComparisonConfig = value || { enabled: false, targets: [] };
+
+  const toggleTarget = (target: ModelTarget) => onChange({
+    ...config,
+    targets: config.targets.some(t => sameTarget(t, target))
+      ? config.targets.filter(t => !sameTarget(t, target))
+      : [...config.targets, target]
+  });
+
+  return (
+    <div className="mb-4">
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-1 text-xs uppercase font-bold text-gray-400 hover:text-primary">
+        {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <Columns3 size={14} /> Model Comparison
+        {config.enabled && <span className="normal-case font-normal text-primary">({config.targets.length} models)</span>}
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3 animate-in slide-in-from-top-2">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input type="checkbox" checked={config.enabled} onChange={(e) => onChange({ ...config, enabled: e.target.checked })} className="accent-primary" />
+            Run this agent on several models side by side
+          </label>
+
+          <div className="grid grid-cols-2 gap-1">
+            {models.map(m => {
+              const target = { provider: m.provider, model: m.id };
+              return (
+                <label key={`${m.provider}|${m.id}`} className="flex items-center gap-2 text-xs cursor-pointer">
+                  <input type="checkbox" checked={config.targets.some(t => sameTarget(t, target))} onChange={() => toggleTarget(target)} className="accent-primary" />
+                  {m.name}
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={!!config.judge}
+                onChange={(e) => onChange({ ...config, judge: e.target.checked ? fallbackJudge : undefined })}
+                className="accent-primary"
+              />
+              Judge with
+            </label>
+            {config.judge && (
+              <ModelSelect
+                value={config.judge}
+                models={models}
+                onChange={(judge) => onChange({ ...config, judge })}
+                className={inputClass}
+              />
+            )}
+          </div>
+
+          {config.judge && (
+            <label className="block text-xs text-gray-400">
+              Rubric
+              <textarea
+                value={config.rubric || ''}
+                onChange={(e) => onChange({ ...config, rubric: e.target.value || undefined })}
+                className={`${inputClass} mt-1 h-16 resize-none`}
+                placeholder="e.g. Cites the documents for every claim; flags uncertainty; under 200 words..."
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelComparisonSettings;
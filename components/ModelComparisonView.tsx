@@ -0,0 +1,58 @@
+import React from 'react';
+import { Check, Loader2, Trophy } from 'lucide-react';
+import { ModelComparison, ModelComparisonEntry, ModelTarget } from '../types';
+import UsageBadge from './UsageBadge';
+import { renderMarkdown } from '../services/markdown';
+
+interface ModelComparisonViewProps {
+  comparison: ModelComparison;
+  onChoose: (entry: ModelComparisonEntry) => void; // Makes the entry's output the agent's output
+}
+
+const sameTarget = (a?: ModelTarget, b?: ModelTarget) => !!a && !!b && a.provider === b.provider && a.model === b.model;
+
+// One column per model with its latency, usage and, once judged, its score
+const ModelComparisonView: React.FC<ModelComparisonViewProps> = ({ comparison, onChoose }) => {
+  const { entries, verdict, judging, judgeError, chosen } = comparison;
+
+  return (
+    <div className="mt-4 space-y-3 animate-in slide-in-from-top-2">
+      {judging && (
+        <p className="text-xs text-gray-400 flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> Judging outputs...</p>
+      )}
+      {judgeError && <p className="text-xs text-red-500">Judge failed: {judgeError}</p>}
+      {verdict && <p className="text-sm p-3 rounded-lg bg-primary/10">{verdict.summary}</p>}
+
+      <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.max(1, entries.length)}, minmax(0, 1fr))` }}>
+        {entries.map((entry, i) => {
+          const score = verdict?.scores.find(s => sameTarget(s.target, entry.target));
+          const winner = sameTarget(verdict?.winner, entry.target);
+          return (
+            <div key={i} className={`p-3 rounded-lg bg-gray-50 dark:bg-black/30 border-t-4 min-w-0 ${winner ? 'border-amber-400' : 'border-primary'}`}>
+              <div className="flex items-center gap-2 mb-1">
+                {winner && <Trophy size={14} className="text-amber-400" />}
+                <span className="font-bold text-sm truncate">{entry.target.model}</span>
+                {score && <span className="ml-auto text-sm font-mono font-bold text-primary">{score.score}/10</span>}
+              </div>
+              <div className="flex items-center gap-2 text-xs text-gray-400 mb-2 flex-wrap">
+                {entry.status === 'running'
+                  ? <span className="animate-pulse">streaming...</span>
+                  : <span className="font-mono">{((entry.latencyMs ?? 0) / 1000).toFixed(1)}s</span>}
+                {entry.usage.calls > 0 && <UsageBadge usage={entry.usage} />}
+                {entry.status === 'done' && (sameTarget(chosen, entry.target)
+                  ? <span className="ml-auto flex items-center gap-1 text-primary"><Check size={12} /> Agent output</span>
+                  : <button onClick={() => onChoose(entry)} className="ml-auto hover:text-primary">Use as output</button>)}
+              </div>
+              {score && <p className="text-xs italic text-gray-500 mb-2">{score.rationale}</p>}
+              {entry.error
+                ? <p className="text-xs text-red-500">{entry.error}</p>
+                : <div className="markdown-body text-text text-sm break-words max-h-96 overflow-y-auto" dangerouslySetInnerHTML={{ __html: renderMarkdown(entry.output) }} />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ModelComparisonView;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { LLMModelInfo, LLMProvider, ModelTarget } from '../types';
+
+interface ModelSelectProps {
+  value: ModelTarget;
+  models: LLMModelInfo[];
+  onChange: (target: ModelTarget) => void;
+  className?: string;
+}
+
+// Model ids may contain ':' (e.g. Ollama tags), so '|' separates provider and model
+const toKey = (target: ModelTarget) => `${target.provider}|${target.model}`;
+
+const fromKey = (key: string): ModelTarget => {
+  const idx = key.indexOf('|');
+  return { provider: key.slice(0, idx) as LLMProvider, model: key.slice(idx + 1) };
+};
+
+const PROVIDER_LABELS: Record<LLMProvider, string> = {
+  [LLMProvider.GEMINI]: 'Gemini',
+  [LLMProvider.OTHER]: 'OpenAI-compatible',
+};
+
+const ModelSelect: React.FC<ModelSelectProps> = ({ value, models, onChange, className }) => {
+  const known = models.some(m => m.provider === value.provider && m.id === value.model);
+
+  return (
+    <select
+      value={toKey(value)}
+      onChange={(e) => onChange(fromKey(e.target.value))}
+      className={className}
+    >
+      {Object.values(LLMProvider).map(provider => {
+        const group = models.filter(m => m.provider === provider);
+        if (group.length === 0) return null;
+        return (
+          <optgroup key={provider} label={PROVIDER_LABELS[provider]}>
+            {group.map(m => <option key={toKey({ provider, model: m.id })} value={toKey({ provider, model: m.id })}>{m.name}</option>)}
+          </optgroup>
+        );
+      })}
+      {/* Keep a model removed from Settings selectable so the choice is not silently changed */}
+      {!known && <option value={toKey(value)}>{value.model} (unlisted)</option>}
+    </select>
+  );
+};
+
+export default ModelSelect;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { LLMModelInfo, LLMProvider, ModelTarget, OpenAICompatibleConfig } from '../types';
+import { listOpenAICompatibleModels } from '../services/llmProvider';
+import ModelSelect from './ModelSelect';
+
+interface ModelSettingsProps {
+  models: LLMModelInfo[];
+  customModels: LLMModelInfo[];
+  onCustomModelsChange: (models: LLMModelInfo[]) => void;
+  openAIConfig: OpenAICompatibleConfig;
+  onOpenAIConfigChange: (config: OpenAICompatibleConfig) => void;
+  defaultModel: ModelTarget;
+  onDefaultModelChange: (target: ModelTarget) => void;
+  t: (key: string) => string;
+}
+
+const inputClass = "w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-3 focus:ring-2 focus:ring-primary outline-none";
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({
+  models,
+  customModels,
+  onCustomModelsChange,
+  openAIConfig,
+  onOpenAIConfigChange,
+  defaultModel,
+  onDefaultModelChange,
+  t
+}) => {
+  const [newProvider, setNewProvider] = useState<LLMProvider>(LLMProvider.OTHER);
+  const [newModelId, setNewModelId] = useState('');
+  const [fetching, setFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  const addModels = (provider: LLMProvider, ids: string[]) => {
+    const fresh = ids
+      .map(id => id.trim())
+      .filter(id => id && !models.some(m => m.provider === provider && m.id === id))
+      .map(id => ({ id, name: id, provider, custom: true }));
+    if (fresh.length) onCustomModelsChange([...customModels, ...fresh]);
+  };
+
+  const handleAdd = () => {
+    addModels(newProvider, [newModelId]);
+    setNewModelId('');
+  };
+
+  const handleFetch = async () => {
+    setFetching(true);
+    setFetchError(null);
+    try {
+      addModels(LLMProvider.OTHER, await listOpenAICompatibleModels(openAIConfig));
+    } catch (err: any) {
+      setFetchError(err.message);
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-bold mb-2">{t('defaultModel')}</label>
+        <ModelSelect value={defaultModel} models={models} onChange={onDefaultModelChange} className={inputClass} />
+        <p className="text-xs text-gray-400 mt-2">{t('defaultModelDesc')}</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-bold mb-2">{t('openAICompatible')}</label>
+        <div className="space-y-2">
+          <input
+            value={openAIConfig.baseUrl}
+            onChange={(e) => onOpenAIConfigChange({ ...openAIConfig, baseUrl: e.target.value })}
+            placeholder={t('baseUrl')}
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={openAIConfig.apiKey}
+            onChange={(e) => onOpenAIConfigChange({ ...openAIConfig, apiKey: e.target.value })}
+            placeholder={`${t('apiKey')} (optional for local servers)`}
+            className={inputClass}
+          />
+          <button
+            onClick={handleFetch}
+            disabled={fetching || !openAIConfig.baseUrl}
+            className="text-xs flex items-center gap-1 bg-gray-100 dark:bg-gray-800 px-3 py-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={fetching ? 'animate-spin' : ''} /> {t('fetchModels')}
+          </button>
+          {fetchError && <p className="text-xs text-red-500">{fetchError}</p>}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-bold mb-2">{t('models')}</label>
+        <ul className="space-y-1 mb-2 max-h-40 overflow-y-auto">
+          {models.map(m => (
+            <li key={`${m.provider}|${m.id}`} className="flex items-center justify-between text-sm px-2 py-1 rounded bg-gray-50 dark:bg-gray-900">
+              <span className="truncate">{m.name} <span className="text-xs text-gray-400">({m.provider})</span></span>
+              {m.custom && (
+                <button
+                  onClick={() => onCustomModelsChange(customModels.filter(c => !(c.provider === m.provider && c.id === m.id)))}
+                  className="text-red-400 hover:text-red-600"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <select
+            value={newProvider}
+            onChange={(e) => setNewProvider(e.target.value as LLMProvider)}
+            className="bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-2 text-sm"
+          >
+            {Object.values(LLMProvider).map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          <input
+            value={newModelId}
+            onChange={(e) => setNewModelId(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Model id, e.g. llama3.1:8b"
+            className="flex-1 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-primary"
+          />
+          <button onClick={handleAdd} disabled={!newModelId.trim()} className="p-2 bg-gray-200 dark:bg-gray-800 rounded-lg hover:bg-primary hover:text-white transition-colors disabled:opacity-50" title={t('addModel')}>
+            <Plus size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { PromptVariable } from '../types';
+
+interface PromptVariablesFormProps {
+  variables: PromptVariable[];
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}
+
+const inputClass = "w-full bg-gray-50 dark:bg-gray-900 border rounded-lg px-2 py-1 text-sm outline-none focus:ring-1 focus:ring-primary";
+
+const PromptVariablesForm: React.FC<PromptVariablesFormProps> = ({ variables, values, onChange }) => {
+  if (variables.length === 0) return null;
+
+  const field = (variable: PromptVariable) => {
+    const value = values[variable.name] ?? '';
+    const set = (next: string) => onChange({ ...values, [variable.name]: next });
+    const missing = variable.required && !value.trim();
+    const className = `${inputClass} mt-1 ${missing ? 'border-red-400' : 'border-gray-200 dark:border-gray-700'}`;
+
+    switch (variable.type) {
+      case 'select':
+        return (
+          <select value={value} onChange={(e) => set(e.target.value)} className={className}>
+            {!variable.options?.includes(value) && <option value={value}>{value || '—'}</option>}
+            {variable.options?.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+        );
+      case 'multiline':
+        return <textarea value={value} onChange={(e) => set(e.target.value)} className={`${className} h-16 resize-none`} />;
+      case 'number':
+        return <input type="number" value={value} onChange={(e) => set(e.target.value)} className={className} />;
+      default:
+        return <input value={value} onChange={(e) => set(e.target.value)} className={className} />;
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 mb-4">
+      {variables.map(variable => (
+        <label key={variable.name} className={`text-xs text-gray-400 ${variable.type === 'multiline' ? 'col-span-2' : ''}`}>
+          {variable.label || variable.name}{variable.required && ' *'}
+          {field(variable)}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default PromptVariablesForm;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, GitCompare, Trash2, X } from 'lucide-react';
+import { AgentRun } from '../types';
+import { formatCost, formatTokens } from './UsageBadge';
+import TextDiffView from './TextDiffView';
+
+interface RunHistoryDrawerProps {
+  agentName: string;
+  runs: AgentRun[]; // Oldest first
+  onClear: () => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const STATUS_CLASS: Record<AgentRun['status'], string> = {
+  done: 'text-green-500',
+  failed: 'text-red-500',
+  stopped: 'text-amber-500',
+};
+
+const runLabel = (run: AgentRun) => `${new Date(run.timestamp).toLocaleTimeString()} · ${run.model}`;
+
+// Settings that explain why two runs differ, shown side by side when comparing
+const describeRun = (run: AgentRun): [string, string][] => [
+  ['Model', `${run.provider} / ${run.model}`],
+  ['Output mode', run.outputMode],
+  ['Settings', JSON.stringify(run.generation)],
+  ['Documents', run.contextHash.slice(0, 12)],
+  ['Duration', `${(run.durationMs / 1000).toFixed(1)}s`],
+  ['Tokens', run.usage ? formatTokens(run.usage.inputTokens + run.usage.outputTokens + run.usage.thinkingTokens) : '—'],
+  ['Cost', run.usage ? formatCost(run.usage.cost) : '—'],
+];
+
+const RunHistoryDrawer: React.FC<RunHistoryDrawerProps> = ({ agentName, runs, onClear, onClose, t }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [diffField, setDiffField] = useState<'output' | 'prompt'>('output');
+
+  // Keep the two most recently ticked runs
+  const toggle = (id: string) => setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2));
+
+  // Compare in chronological order regardless of the order the runs were ticked
+  const compared = runs.filter(r => selected.includes(r.id));
+  const [before, after] = compared;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-black/50 backdrop-blur-sm">
+      <div className="bg-surface w-full max-w-4xl h-full overflow-y-auto p-6 shadow-2xl animate-in slide-in-from-right border-l border-gray-200 dark:border-gray-800">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold font-serif">{agentName} · {t('runHistory')}</h2>
+          <div className="flex gap-2">
+            {runs.length > 0 && (
+              <button onClick={onClear} className="p-2 text-red-400 hover:text-red-600" title="Clear history">
+                <Trash2 size={18} />
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full"><X/></button>
+          </div>
+        </div>
+
+        {runs.length === 0 && <p className="text-gray-400 text-sm">{t('noRuns')}</p>}
+
+        {before && after && (
+          <div className="mb-6 p-4 rounded-xl border border-primary/40 space-y-4">
+            <div className="flex items-center gap-2">
+              <GitCompare size={16} className="text-primary" />
+              <span className="font-bold text-sm">{t('compareRuns')}</span>
+              <div className="ml-auto flex gap-1 text-xs">
+                {(['output', 'prompt'] as const).map(field => (
+                  <button
+                    key={field}
+                    onClick={() => setDiffField(field)}
+                    className={`px-2 py-1 rounded capitalize ${diffField === field ? 'bg-primary text-white' : 'hover:bg-gray-200 dark:hover:bg-gray-800'}`}
+                  >
+                    {field}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <table className="w-full text-xs">
+              <tbody>
+                {describeRun(before).map(([label, value], i) => {
+                  const other = describeRun(after)[i][1];
+                  const changed = value !== other && !['Duration', 'Tokens', 'Cost'].includes(label);
+                  return (
+                    <tr key={label} className={`border-t border-gray-200 dark:border-gray-800 ${changed ? 'text-amber-600 dark:text-amber-400 font-semibold' : ''}`}>
+                      <td className="py-1 pr-2 text-gray-400 w-24">{label}</td>
+                      <td className="py-1 pr-2 font-mono break-all">{value}</td>
+                      <td className="py-1 font-mono break-all">{other}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <TextDiffView
+              before={before[diffField]}
+              after={after[diffField]}
+              beforeLabel={runLabel(before)}
+              afterLabel={runLabel(after)}
+            />
+          </div>
+        )}
+
+        {runs.length > 1 && selected.length < 2 && <p className="text-xs text-gray-400 mb-2">{t('selectTwoRuns')}</p>}
+
+        <div className="space-y-2">
+          {[...runs].reverse().map(run => (
+            <div key={run.id} className="rounded-lg border border-gray-200 dark:border-gray-800">
+              <div className="flex items-center gap-3 p-3 text-sm">
+                <input type="checkbox" checked={selected.includes(run.id)} onChange={() => toggle(run.id)} className="accent-primary" />
+                <button onClick={() => setExpanded(expanded === run.id ? null : run.id)} className="flex items-center gap-2 flex-1 min-w-0 text-left">
+                  {expanded === run.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  <span className="font-mono text-xs">{new Date(run.timestamp).toLocaleString()}</span>
+                  <span className="truncate">{run.model}</span>
+                </button>
+                <span className={`text-xs ${STATUS_CLASS[run.status]}`}>{run.status}</span>
+                <span className="text-xs font-mono text-gray-400">{(run.durationMs / 1000).toFixed(1)}s</span>
+                {run.usage && <span className="text-xs font-mono text-gray-400">{formatCost(run.usage.cost)}</span>}
+              </div>
+              {expanded === run.id && (
+                <div className="px-3 pb-3 space-y-2 text-sm">
+                  <div>
+                    <div className="text-xs font-bold uppercase text-gray-400 mb-1">Prompt</div>
+                    <pre className="whitespace-pre-wrap break-words text-xs p-2 rounded bg-gray-50 dark:bg-black/30 max-h-48 overflow-y-auto">{run.prompt}</pre>
+                  </div>
+                  <div>
+                    <div className="text-xs font-bold uppercase text-gray-400 mb-1">Output</div>
+                    <pre className="whitespace-pre-wrap break-words text-xs p-2 rounded bg-gray-50 dark:bg-black/30 max-h-64 overflow-y-auto">{run.error ? run.error : run.output}</pre>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunHistoryDrawer;
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { JsonSchema } from '../types';
+
+interface SchemaEditorProps {
+  value: JsonSchema | undefined;
+  onChange: (schema: JsonSchema) => void;
+}
+
+// Edits the schema as JSON text; the agent config only changes once the text parses
+const SchemaEditor: React.FC<SchemaEditorProps> = ({ value, onChange }) => {
+  const [text, setText] = useState(JSON.stringify(value ?? {}, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  // Follow external changes (e.g. a YAML import) unless the user is mid-edit with invalid JSON
+  useEffect(() => {
+    if (!parseError) setText(JSON.stringify(value ?? {}, null, 2));
+  }, [value]);
+
+  const commit = () => {
+    try {
+      const parsed = JSON.parse(text);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('The schema must be a JSON object.');
+      }
+      setParseError(null);
+      onChange(parsed);
+    } catch (err: any) {
+      setParseError(err.message);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-xs uppercase font-bold text-gray-400 mb-1">Response JSON Schema</label>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        spellCheck={false}
+        className={`w-full h-32 bg-gray-50 dark:bg-gray-900 border rounded-lg p-3 text-xs font-mono outline-none resize-y focus:ring-1 focus:ring-primary ${parseError ? 'border-red-500' : 'border-gray-200 dark:border-gray-700'}`}
+      />
+      {parseError && <p className="text-xs text-red-500 mt-1">{parseError}</p>}
+    </div>
+  );
+};
+
+export default SchemaEditor;
@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { bestMatches, DEFAULT_UNIQUE_THRESHOLD, ParagraphMatch, SemanticMatrix } from '../services/semanticSimilarity';
+
+interface SemanticSimilarityViewProps {
+  matrix: SemanticMatrix;
+  beforeName: string;
+  afterName: string;
+}
+
+const HEATMAP_SIZE = 480;
+
+const snippet = (text: string, length = 90) => text.length > length ? `${text.slice(0, length)}…` : text;
+
+// Heatmap of paragraph similarities with a nearest-counterpart list for each document
+const SemanticSimilarityView: React.FC<SemanticSimilarityViewProps> = ({ matrix, beforeName, afterName }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [threshold, setThreshold] = useState(DEFAULT_UNIQUE_THRESHOLD);
+  const [hover, setHover] = useState<{ i: number; j: number } | null>(null);
+  const [selected, setSelected] = useState<{ i: number; j: number } | null>(null);
+
+  const rows = matrix.before.length;
+  const cols = matrix.after.length;
+  const cell = Math.max(2, Math.min(24, Math.floor(HEATMAP_SIZE / Math.max(rows, cols, 1))));
+  const matches = useMemo(() => bestMatches(matrix, threshold), [matrix, threshold]);
+
+  // A loop rather than a spread: large documents give more scores than a call can take arguments
+  const domain = useMemo(() => {
+    let low = 0;
+    let high = 1;
+    for (const row of matrix.scores) {
+      for (const score of row) {
+        if (score < low) low = score;
+        if (score > high) high = score;
+      }
+    }
+    return [low, high];
+  }, [matrix]);
+  const color = d3.scaleSequential(d3.interpolateYlOrRd).domain(domain);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, cols * cell, rows * cell);
+    matrix.scores.forEach((row, i) => row.forEach((score, j) => {
+      ctx.fillStyle = color(score);
+      ctx.fillRect(j * cell, i * cell, cell, cell);
+    }));
+    if (selected) {
+      ctx.strokeStyle = '#2563eb';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(selected.j * cell + 1, selected.i * cell + 1, cell - 2, cell - 2);
+    }
+  }, [matrix, cell, selected]);
+
+  const cellAt = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const i = Math.floor((e.clientY - rect.top) / cell);
+    const j = Math.floor((e.clientX - rect.left) / cell);
+    return i >= 0 && i < rows && j >= 0 && j < cols ? { i, j } : null;
+  };
+
+  const shown = hover || selected;
+  const uniqueCount = (list: ParagraphMatch[]) => list.filter(m => m.unique).length;
+
+  const matchList = (list: ParagraphMatch[], texts: string[], side: 'before' | 'after', name: string) => (
+    <div className="min-w-0">
+      <div className="text-xs font-bold uppercase text-gray-400 mb-1">
+        {name} · {uniqueCount(list)} unique
+      </div>
+      <div className="max-h-72 overflow-y-auto space-y-1">
+        {list.map(m => {
+          const pair = side === 'before' ? { i: m.index, j: m.match } : { i: m.match, j: m.index };
+          const isSelected = selected?.i === pair.i && selected?.j === pair.j;
+          return (
+            <button
+              key={m.index}
+              onClick={() => m.match >= 0 && setSelected(pair)}
+              className={`w-full text-left text-xs p-2 rounded-lg border ${isSelected ? 'border-primary' : 'border-transparent'} ${m.unique ? 'bg-purple-500/10' : 'bg-gray-50 dark:bg-gray-900'} hover:border-primary/50`}
+            >
+              <div className="flex items-center gap-2 font-mono">
+                <span>¶{m.index + 1}</span>
+                {m.match >= 0 && <span className="text-gray-400">→ ¶{m.match + 1}</span>}
+                <span className="text-gray-400">{m.score.toFixed(2)}</span>
+                {m.unique && <span className="ml-auto px-1.5 rounded-full bg-purple-500 text-white text-[10px] font-sans font-bold uppercase">unique</span>}
+              </div>
+              <div className="text-gray-500 truncate">{snippet(texts[m.index])}</div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  if (rows === 0 || cols === 0) return <p className="text-sm text-gray-400 italic">Both documents need at least one paragraph.</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-6 items-start">
+        <div>
+          <div className="text-[10px] text-gray-400 mb-1">rows: {beforeName} · columns: {afterName}</div>
+          <canvas
+            ref={canvasRef}
+            width={cols * cell}
+            height={rows * cell}
+            className="rounded cursor-crosshair border border-gray-200 dark:border-gray-800"
+            onMouseMove={(e) => setHover(cellAt(e))}
+            onMouseLeave={() => setHover(null)}
+            onClick={(e) => setSelected(cellAt(e))}
+          />
+          <div className="mt-1 text-xs font-mono text-gray-400 h-4">
+            {shown && `¶${shown.i + 1} ↔ ¶${shown.j + 1}: ${matrix.scores[shown.i][shown.j].toFixed(3)}`}
+          </div>
+        </div>
+        <label className="text-xs flex items-center gap-2">
+          Unique below
+          <input type="range" min={0} max={1} step={0.01} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} className="accent-primary" />
+          <span className="font-mono w-8">{threshold.toFixed(2)}</span>
+        </label>
+      </div>
+
+      {selected && (
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          {[{ label: `${beforeName} ¶${selected.i + 1}`, text: matrix.before[selected.i] }, { label: `${afterName} ¶${selected.j + 1}`, text: matrix.after[selected.j] }].map(side => (
+            <div key={side.label}>
+              <div className="text-xs font-bold uppercase text-gray-400 mb-1">{side.label}</div>
+              <div className="p-3 rounded-lg bg-gray-50 dark:bg-black/30 whitespace-pre-wrap break-words max-h-48 overflow-y-auto">{side.text}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {matchList(matches.before, matrix.before, 'before', beforeName)}
+        {matchList(matches.after, matrix.after, 'after', afterName)}
+      </div>
+    </div>
+  );
+};
+
+export default SemanticSimilarityView;
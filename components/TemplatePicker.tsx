@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { BookmarkPlus, History, RefreshCw, RotateCcw } from 'lucide-react';
+import { PromptTemplate } from '../types';
+
+interface TemplatePickerProps {
+  templates: PromptTemplate[];
+  templateId?: string;
+  templateVersion?: number;
+  onApply: (template: PromptTemplate) => void;
+  onSave: () => void;
+  onRestore: (templateId: string, version: number) => void; // Makes an earlier version the latest again
+}
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, templateId, templateVersion, onApply, onSave, onRestore }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const current = templates.find(t => t.id === templateId);
+  const outdated = current && templateVersion !== undefined && templateVersion < current.version;
+  const history = current && !current.builtIn ? [...(current.history || [])].reverse() : [];
+  const option = (t: PromptTemplate) => (
+    <option key={t.id} value={t.id} title={t.description}>{t.name} (v{t.version})</option>
+  );
+
+  return (
+    <div className="mb-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={current ? current.id : ''}
+          onChange={(e) => {
+            const template = templates.find(t => t.id === e.target.value);
+            if (template) onApply(template);
+          }}
+          className="flex-1 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-1 text-sm"
+        >
+          <option value="">Custom prompt</option>
+          <optgroup label="Built-in">{templates.filter(t => t.builtIn).map(option)}</optgroup>
+          {templates.some(t => !t.builtIn) && (
+            <optgroup label="Saved">{templates.filter(t => !t.builtIn).map(option)}</optgroup>
+          )}
+        </select>
+        {outdated && (
+          <button
+            onClick={() => onApply(current)}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded-lg bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+            title={`This agent uses v${templateVersion}`}
+          >
+            <RefreshCw size={12} /> v{current.version}
+          </button>
+        )}
+        {history.length > 0 && (
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`p-1 hover:text-primary ${showHistory ? 'text-primary' : 'text-gray-400'}`}
+            title="Earlier versions"
+          >
+            <History size={18} />
+          </button>
+        )}
+        <button onClick={onSave} className="p-1 text-gray-400 hover:text-primary" title="Save prompt as template">
+          <BookmarkPlus size={18} />
+        </button>
+      </div>
+
+      {showHistory && current && history.length > 0 && (
+        <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+          {history.map(v => (
+            <li key={v.version} className="flex items-start gap-2 text-xs px-2 py-1 rounded bg-gray-50 dark:bg-gray-900">
+              <div className="min-w-0 flex-1">
+                <p className="font-semibold">v{v.version} <span className="font-normal text-gray-400">· {new Date(v.savedAt).toLocaleString()}</span></p>
+                <p className="text-gray-400 truncate" title={v.prompt}>{v.prompt.trim()}</p>
+              </div>
+              <button
+                onClick={() => onRestore(current.id, v.version)}
+                className="flex items-center gap-1 shrink-0 text-gray-500 hover:text-primary"
+                title={`Save v${v.version} as v${current.version + 1} and use it`}
+              >
+                <RotateCcw size={12} /> Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePicker;
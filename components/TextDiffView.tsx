@@ -0,0 +1,36 @@
+import React from 'react';
+import { diffWords } from '../services/textDiff';
+
+interface TextDiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+// Side-by-side word diff: removals are marked on the left, additions on the right
+const TextDiffView: React.FC<TextDiffViewProps> = ({ before, after, beforeLabel, afterLabel }) => {
+  const parts = diffWords(before, after);
+  const side = (hidden: 'added' | 'removed', markClass: string) => (
+    <div className="p-3 rounded-lg bg-gray-50 dark:bg-black/30 text-sm whitespace-pre-wrap break-words overflow-y-auto max-h-[60vh]">
+      {parts.filter(p => p.type !== hidden).map((p, i) =>
+        p.type === 'equal' ? <span key={i}>{p.text}</span> : <mark key={i} className={`${markClass} rounded px-0.5`}>{p.text}</mark>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <div className="text-xs font-bold uppercase text-gray-400 mb-1">{beforeLabel}</div>
+        {side('added', 'bg-red-200 dark:bg-red-900/60 text-red-900 dark:text-red-100 line-through')}
+      </div>
+      <div>
+        <div className="text-xs font-bold uppercase text-gray-400 mb-1">{afterLabel}</div>
+        {side('removed', 'bg-green-200 dark:bg-green-900/60 text-green-900 dark:text-green-100')}
+      </div>
+    </div>
+  );
+};
+
+export default TextDiffView;
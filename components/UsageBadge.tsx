@@ -0,0 +1,24 @@
+import React from 'react';
+import { UsageSummary } from '../types';
+
+export const formatTokens = (n: number) =>
+  n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`;
+
+export const formatCost = (usd: number) => usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+interface UsageBadgeProps {
+  usage: UsageSummary;
+}
+
+const UsageBadge: React.FC<UsageBadgeProps> = ({ usage }) => (
+  <span
+    className="text-[10px] font-mono px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-500 whitespace-nowrap"
+    title={`${usage.calls} call(s): ${usage.inputTokens} input, ${usage.outputTokens} output, ${usage.thinkingTokens} thinking tokens`}
+  >
+    {formatTokens(usage.inputTokens)} in · {formatTokens(usage.outputTokens)} out
+    {usage.thinkingTokens > 0 && <> · {formatTokens(usage.thinkingTokens)} think</>}
+    {' · '}{formatCost(usage.cost)}
+  </span>
+);
+
+export default UsageBadge;
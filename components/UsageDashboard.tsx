@@ -0,0 +1,118 @@
+import React from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { UsageFeature, UsageRecord, UsageSummary } from '../types';
+import { summarizeUsage } from '../services/usageTracker';
+import { formatCost, formatTokens } from './UsageBadge';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  budget: number | null;
+  onReset: () => void;
+  onClose: () => void;
+  t: (key: string) => string;
+}
+
+const FEATURES: { id: UsageFeature; label: string }[] = [
+  { id: 'mindmap', label: 'mindMap' },
+  { id: 'agents', label: 'agents' },
+  { id: 'comparison', label: 'comparison' },
+  { id: 'smartnote', label: 'smartNote' },
+  { id: 'chat', label: 'documentChat' },
+];
+
+const UsageRow: React.FC<{ label: string; usage: UsageSummary }> = ({ label, usage }) => (
+  <tr className="border-t border-gray-200 dark:border-gray-800">
+    <td className="py-2 pr-2 font-semibold">{label}</td>
+    <td className="py-2 text-right font-mono">{usage.calls}</td>
+    <td className="py-2 text-right font-mono">{formatTokens(usage.inputTokens)}</td>
+    <td className="py-2 text-right font-mono">{formatTokens(usage.outputTokens)}</td>
+    <td className="py-2 text-right font-mono">{formatTokens(usage.thinkingTokens)}</td>
+    <td className="py-2 text-right font-mono">{formatCost(usage.cost)}</td>
+  </tr>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, budget, onReset, onClose, t }) => {
+  const total = summarizeUsage(records);
+  const models = [...new Set(records.map(r => r.model))];
+  const budgetRatio = budget ? Math.min(1, total.cost / budget) : 0;
+
+  const header = (
+    <thead>
+      <tr className="text-xs uppercase text-gray-400">
+        <th className="text-left py-1"></th>
+        <th className="text-right py-1">Calls</th>
+        <th className="text-right py-1">In</th>
+        <th className="text-right py-1">Out</th>
+        <th className="text-right py-1">Think</th>
+        <th className="text-right py-1">Cost</th>
+      </tr>
+    </thead>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-surface w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-3xl p-8 shadow-2xl animate-in zoom-in-95 border border-gray-200 dark:border-gray-800">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold font-serif">{t('sessionUsage')}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full"><X/></button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-900">
+            <p className="text-xs uppercase text-gray-400">Total cost</p>
+            <p className="text-2xl font-bold text-primary">{formatCost(total.cost)}</p>
+          </div>
+          <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-900">
+            <p className="text-xs uppercase text-gray-400">Tokens</p>
+            <p className="text-2xl font-bold">{formatTokens(total.inputTokens + total.outputTokens + total.thinkingTokens)}</p>
+          </div>
+          <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-900">
+            <p className="text-xs uppercase text-gray-400">Calls</p>
+            <p className="text-2xl font-bold">{total.calls}</p>
+          </div>
+        </div>
+
+        {budget !== null && (
+          <div className="mb-6">
+            <div className="flex justify-between text-xs mb-1">
+              <span className="font-bold">{t('budget')}</span>
+              <span className="font-mono">{formatCost(total.cost)} / {formatCost(budget)}</span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden">
+              <div
+                className={`h-full ${budgetRatio >= 1 ? 'bg-red-500' : budgetRatio >= 0.8 ? 'bg-amber-500' : 'bg-primary'}`}
+                style={{ width: `${budgetRatio * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <h3 className="text-sm font-bold mb-2">By feature</h3>
+        <table className="w-full text-sm mb-6">
+          {header}
+          <tbody>
+            {FEATURES.map(f => <UsageRow key={f.id} label={t(f.label)} usage={summarizeUsage(records.filter(r => r.feature === f.id))} />)}
+          </tbody>
+        </table>
+
+        {models.length > 0 && (
+          <>
+            <h3 className="text-sm font-bold mb-2">By model</h3>
+            <table className="w-full text-sm mb-6">
+              {header}
+              <tbody>
+                {models.map(m => <UsageRow key={m} label={m} usage={summarizeUsage(records.filter(r => r.model === m))} />)}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        <button onClick={onReset} disabled={records.length === 0} className="flex items-center gap-2 text-sm text-red-400 hover:text-red-600 disabled:opacity-50">
+          <RotateCcw size={14} /> Reset session usage
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { LLMModelInfo, LLMProvider, ModelPrice, ModelPrices } from '../types';
+
+interface UsageSettingsProps {
+  models: LLMModelInfo[];
+  prices: ModelPrices;
+  onPricesChange: (prices: ModelPrices) => void;
+  budget: number | null;
+  onBudgetChange: (budget: number | null) => void;
+  t: (key: string) => string;
+}
+
+const numberInputClass = "w-20 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1 text-xs text-right outline-none focus:ring-1 focus:ring-primary";
+
+const UsageSettings: React.FC<UsageSettingsProps> = ({ models, prices, onPricesChange, budget, onBudgetChange, t }) => {
+  const setPrice = (provider: LLMProvider, modelId: string, field: keyof ModelPrice, value: string) => {
+    const forProvider = prices[provider] || {};
+    const current = forProvider[modelId] || { inputPerMillion: 0, outputPerMillion: 0 };
+    onPricesChange({ ...prices, [provider]: { ...forProvider, [modelId]: { ...current, [field]: Math.max(0, parseFloat(value) || 0) } } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-bold mb-2">{t('budget')}</label>
+        <input
+          type="number" min={0} step={0.1}
+          value={budget ?? ''}
+          onChange={(e) => onBudgetChange(e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0))}
+          placeholder="∞"
+          className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl p-3 focus:ring-2 focus:ring-primary outline-none"
+        />
+        <p className="text-xs text-gray-400 mt-2">{t('budgetDesc')}</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-bold mb-2">{t('pricing')}</label>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-400 uppercase">
+              <th className="text-left py-1">Model</th>
+              <th className="text-right py-1">Input</th>
+              <th className="text-right py-1">Output</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map(m => (
+              <tr key={`${m.provider}|${m.id}`}>
+                <td className="py-1 pr-2 truncate max-w-[10rem]" title={m.id}>{m.name}</td>
+                <td className="py-1 text-right">
+                  <input type="number" min={0} step={0.01} value={prices[m.provider]?.[m.id]?.inputPerMillion ?? 0} onChange={(e) => setPrice(m.provider, m.id, 'inputPerMillion', e.target.value)} className={numberInputClass} />
+                </td>
+                <td className="py-1 text-right">
+                  <input type="number" min={0} step={0.01} value={prices[m.provider]?.[m.id]?.outputPerMillion ?? 0} onChange={(e) => setPrice(m.provider, m.id, 'outputPerMillion', e.target.value)} className={numberInputClass} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UsageSettings;
@@ -1,4 +1,4 @@
-import { FlowerTheme, LLMModelInfo, LLMProvider, Translations } from './types';
+import { FlowerTheme, JsonSchema, LLMModelInfo, LLMProvider, ModelPrices, ModelTarget, OpenAICompatibleConfig, PromptTemplate, PromptVariable, Translations, WorkspaceDocument } from './types';
 
 export const FLOWER_THEMES: FlowerTheme[] = [
   { id: 'rose', name: 'Red Rose', primary: '#e11d48', secondary: '#ffe4e6', icon: '🌹' },
@@ -24,11 +24,29 @@ export const FLOWER_THEMES: FlowerTheme[] = [
 ];
 
 export const AVAILABLE_MODELS: LLMModelInfo[] = [
-  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: LLMProvider.GEMINI },
-  { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro', provider: LLMProvider.GEMINI },
-  { id: 'gemini-2.5-flash-thinking', name: 'Gemini 2.5 Thinking', provider: LLMProvider.GEMINI }, // Conceptual alias, handled in service
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: LLMProvider.GEMINI, contextWindow: 1_048_576 },
+  { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro', provider: LLMProvider.GEMINI, contextWindow: 1_048_576 },
+  { id: 'gemini-2.5-flash-thinking', name: 'Gemini 2.5 Thinking', provider: LLMProvider.GEMINI, contextWindow: 1_048_576 }, // Conceptual alias, handled in service
 ];
 
+// Public list prices (USD per 1M tokens); editable in Settings
+export const DEFAULT_MODEL_PRICES: ModelPrices = {
+  [LLMProvider.GEMINI]: {
+    'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    'gemini-3-pro-preview': { inputPerMillion: 2.00, outputPerMillion: 12.00 },
+    'gemini-2.5-flash-thinking': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    'gemini-embedding-001': { inputPerMillion: 0.15, outputPerMillion: 0 },
+  },
+};
+
+export const DEFAULT_MODEL_TARGET: ModelTarget = { provider: LLMProvider.GEMINI, model: 'gemini-2.5-flash' };
+
+// Ollama serves an OpenAI-compatible API on this address by default
+export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
 export const TRANSLATIONS: Translations = {
   appTitle: { en: 'FlorAI Workspace', 'zh-TW': '花語 AI 工作區' },
   mindMap: { en: 'Mind Map', 'zh-TW': '思維導圖' },
@@ -40,6 +58,20 @@ export const TRANSLATIONS: Translations = {
   upload: { en: 'Upload File', 'zh-TW': '上傳文件' },
   doc1: { en: 'Document 1', 'zh-TW': '文檔 1' },
   doc2: { en: 'Document 2', 'zh-TW': '文檔 2' },
+  documents: { en: 'Documents', 'zh-TW': '文檔庫' },
+  addDocument: { en: 'Add document', 'zh-TW': '新增文檔' },
+  addFromFiles: { en: 'Add documents from files (PDF, DOCX, HTML, EPUB, CSV, text)', 'zh-TW': '從檔案新增文檔（PDF、DOCX、HTML、EPUB、CSV、文字）' },
+  contextTooLarge: { en: 'The selected documents may not fit in this model\'s context window.', 'zh-TW': '所選文檔可能超出此模型的上下文長度。' },
+  compare: { en: 'Compare Documents', 'zh-TW': '文檔比較' },
+  aiNarrative: { en: 'AI Narrative', 'zh-TW': 'AI 比較說明' },
+  clauseComparison: { en: 'Clause Comparison', 'zh-TW': '條款比較' },
+  semanticSimilarity: { en: 'Semantic Similarity', 'zh-TW': '語意相似度' },
+  documentChat: { en: 'Ask the Documents', 'zh-TW': '文檔問答' },
+  askDocuments: { en: 'Ask a question about the documents...', 'zh-TW': '針對文檔提問...' },
+  clearChat: { en: 'Clear conversation', 'zh-TW': '清除對話' },
+  chatEmpty: { en: 'Answers cite the passages they are based on; click a citation to see it in its document.', 'zh-TW': '回答會引用所依據的段落；點擊引用即可在文檔中查看。' },
+  chatNoDocuments: { en: 'Add text to a document to start asking questions.', 'zh-TW': '請先在文檔中加入內容再提問。' },
+  chatNoPassages: { en: 'No passage in the documents matches this question. Try other words, or enable embeddings in the settings.', 'zh-TW': '文檔中沒有與此問題相符的段落。請換個說法，或在設定中啟用向量檢索。' },
   process: { en: 'Process & Analyze', 'zh-TW': '處理並分析' },
   agents: { en: 'Agents', 'zh-TW': '代理' },
   runAgents: { en: 'Run All Agents', 'zh-TW': '運行所有代理' },
@@ -56,8 +88,145 @@ export const TRANSLATIONS: Translations = {
   downloadMd: { en: 'Download Markdown', 'zh-TW': '下載 Markdown' },
   processAll: { en: 'Process All', 'zh-TW': '一鍵處理' },
   highlight: { en: 'Highlight', 'zh-TW': '高亮' },
+  models: { en: 'Models', 'zh-TW': '模型' },
+  defaultModel: { en: 'Default Model', 'zh-TW': '預設模型' },
+  defaultModelDesc: { en: 'Used by Mind Map, Comparison and Smart Note', 'zh-TW': '用於思維導圖、比較與智慧筆記' },
+  openAICompatible: { en: 'OpenAI-compatible Endpoint', 'zh-TW': 'OpenAI 相容端點' },
+  baseUrl: { en: 'Base URL', 'zh-TW': '基礎網址' },
+  fetchModels: { en: 'Fetch Models', 'zh-TW': '取得模型' },
+  addModel: { en: 'Add Model', 'zh-TW': '新增模型' },
+  requests: { en: 'Requests', 'zh-TW': '請求' },
+  concurrency: { en: 'Concurrency', 'zh-TW': '並行數' },
+  maxRetries: { en: 'Max Retries', 'zh-TW': '最大重試次數' },
+  timeoutSeconds: { en: 'Timeout (s)', 'zh-TW': '逾時 (秒)' },
+  responseCache: { en: 'Response Cache', 'zh-TW': '回應快取' },
+  cacheEnabled: { en: 'Enabled', 'zh-TW': '啟用' },
+  cacheLimit: { en: 'Limit', 'zh-TW': '上限' },
+  clearCache: { en: 'Clear', 'zh-TW': '清除' },
+  embeddingCache: { en: 'Embeddings', 'zh-TW': '嵌入向量' },
+  bypassCache: { en: 'Bypass cache', 'zh-TW': '略過快取' },
+  usage: { en: 'Usage', 'zh-TW': '用量' },
+  comparison: { en: 'Comparison', 'zh-TW': '比較' },
+  noComparisonTargets: { en: 'Select at least one model to compare.', 'zh-TW': '請至少選擇一個要比較的模型。' },
+  budgetWarning: { en: 'This run may exceed your session budget. Run anyway?', 'zh-TW': '此次執行可能超出本次預算，仍要執行嗎？' },
+  downstreamSkipped: { en: 'Dependent agents were not re-run because a batch is already running.', 'zh-TW': '已有批次執行中，未重新執行相依的代理。' },
+  sessionUsage: { en: 'Session Usage', 'zh-TW': '本次用量' },
+  pricing: { en: 'Pricing (USD / 1M tokens)', 'zh-TW': '價格 (美元 / 百萬 Token)' },
+  budget: { en: 'Session Budget (USD)', 'zh-TW': '本次預算 (美元)' },
+  budgetDesc: { en: 'Warns before a run could exceed it. Leave empty for no limit.', 'zh-TW': '執行可能超出預算時提出警告。留空表示不限制。' },
+  mergeImport: { en: 'Append', 'zh-TW': '附加' },
+  mergeImportDesc: { en: 'Add loaded agents to the current ones instead of replacing them', 'zh-TW': '將載入的代理加入現有清單，而非取代' },
+  exportReport: { en: 'Export report', 'zh-TW': '匯出報告' },
+  runHistory: { en: 'Run History', 'zh-TW': '執行紀錄' },
+  noRuns: { en: 'No runs yet.', 'zh-TW': '尚無執行紀錄。' },
+  compareRuns: { en: 'Compare Runs', 'zh-TW': '比較執行結果' },
+  selectTwoRuns: { en: 'Tick two runs to compare them side by side.', 'zh-TW': '勾選兩次執行以並排比較。' },
+  stopAgents: { en: 'Stop All', 'zh-TW': '全部停止' },
+  batchConcurrency: { en: 'Parallel', 'zh-TW': '並行數' },
+  failFast: { en: 'Stop on first failure', 'zh-TW': '首次失敗即停止' },
+  batchReport: { en: 'Run Report', 'zh-TW': '執行報告' },
+  openSettings: { en: 'Open Settings', 'zh-TW': '開啟設置' },
+  err_missingKey: { en: 'API key or endpoint missing', 'zh-TW': '缺少 API 金鑰或端點' },
+  errHint_missingKey: { en: 'Add a valid API key (or the OpenAI-compatible base URL) in Settings, then try again.', 'zh-TW': '請在設置中填入有效的 API 金鑰（或 OpenAI 相容端點網址）後再試。' },
+  err_quota: { en: 'Rate limit or quota reached', 'zh-TW': '已達速率限制或配額上限' },
+  errHint_quota: { en: 'Requests were retried with backoff. Wait a minute, lower the concurrency in Settings, or check the billing quota of your key.', 'zh-TW': '已自動退避重試。請稍候、在設置中降低並行數，或檢查金鑰的配額。' },
+  err_safety: { en: 'Blocked by safety filters', 'zh-TW': '被安全過濾器攔截' },
+  errHint_safety: { en: 'The provider refused this prompt or response. Rephrase the instruction or remove the flagged content from the input.', 'zh-TW': '供應商拒絕了此提示或回應。請改寫指令或移除被標記的內容。' },
+  err_malformedJson: { en: 'Unreadable model response', 'zh-TW': '無法解析模型回應' },
+  errHint_malformedJson: { en: 'The model did not return valid JSON. Try again, shorten the input, or pick a stronger model.', 'zh-TW': '模型未回傳有效的 JSON。請重試、縮短輸入或改用更強的模型。' },
+  err_network: { en: 'Network error', 'zh-TW': '網路錯誤' },
+  errHint_network: { en: 'The endpoint could not be reached. Check your connection, the base URL, and that the server allows browser (CORS) requests.', 'zh-TW': '無法連線到端點。請檢查網路、基礎網址，以及伺服器是否允許瀏覽器 (CORS) 請求。' },
+  err_timeout: { en: 'Request timed out', 'zh-TW': '請求逾時' },
+  errHint_timeout: { en: 'The model stopped responding. Retry, lower Max Tokens, or raise the timeout in Settings.', 'zh-TW': '模型停止回應。請重試、降低最大 Token 數，或在設置中提高逾時時間。' },
+  err_server: { en: 'Provider server error', 'zh-TW': '供應商伺服器錯誤' },
+  errHint_server: { en: 'The provider failed even after retries. It is usually temporary; try again shortly.', 'zh-TW': '重試後供應商仍然失敗，通常是暫時性問題，請稍後再試。' },
+  err_cancelled: { en: 'Request cancelled', 'zh-TW': '請求已取消' },
+  err_unknown: { en: 'Something went wrong', 'zh-TW': '發生錯誤' },
+};
+
+// Starting point when an agent is switched to JSON output
+export const DEFAULT_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          detail: { type: 'string' }
+        },
+        required: ['title', 'detail']
+      }
+    }
+  },
+  required: ['items']
 };
 
+const AUDIENCE_VARIABLE: PromptVariable = {
+  name: 'audience',
+  label: 'Audience',
+  type: 'select',
+  options: ['Executives', 'Legal team', 'Engineers', 'General public'],
+  defaultValue: 'Executives',
+  required: true
+};
+
+const LANGUAGE_VARIABLE: PromptVariable = {
+  name: 'language',
+  label: 'Output language',
+  type: 'text',
+  defaultValue: 'English',
+  required: true
+};
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin-risk-review',
+    name: 'Risk Review',
+    description: 'Lists risks with severity and mitigation.',
+    version: 1,
+    builtIn: true,
+    prompt: 'Review the documents for risks relevant to {{audience}}. For each risk give a short title, a severity (low, medium, high), the passage it comes from and a suggested mitigation. List at most {{maxItems}} risks, most severe first. Answer in {{language}}.',
+    variables: [
+      AUDIENCE_VARIABLE,
+      { name: 'maxItems', label: 'Maximum risks', type: 'number', defaultValue: '10', required: true },
+      LANGUAGE_VARIABLE
+    ]
+  },
+  {
+    id: 'builtin-timeline',
+    name: 'Timeline Extraction',
+    description: 'Builds a chronological list of dated events.',
+    version: 1,
+    builtIn: true,
+    prompt: 'Extract every dated or datable event from the documents and present them as a chronological timeline. Use the date format {{dateFormat}}, mark approximate dates with "~" and note which document each event comes from. Answer in {{language}}.',
+    variables: [
+      { name: 'dateFormat', label: 'Date format', type: 'select', options: ['YYYY-MM-DD', 'DD/MM/YYYY', 'Month D, YYYY'], defaultValue: 'YYYY-MM-DD', required: true },
+      LANGUAGE_VARIABLE
+    ]
+  },
+  {
+    id: 'builtin-contradictions',
+    name: 'Contradiction Finder',
+    description: 'Finds statements that conflict between or within the documents.',
+    version: 1,
+    builtIn: true,
+    prompt: 'Find statements that contradict each other, either between the two documents or within one of them. Quote both statements, explain the conflict in terms {{audience}} will understand and say which one seems more reliable and why. {{focus}} Answer in {{language}}.',
+    variables: [
+      AUDIENCE_VARIABLE,
+      { name: 'focus', label: 'Extra focus (optional)', type: 'multiline' },
+      LANGUAGE_VARIABLE
+    ]
+  }
+];
+
+// The two documents the analysis tab started with; older agent files refer to them by these ids
+export const DEFAULT_DOCUMENTS: WorkspaceDocument[] = [
+  { id: 'doc-1', name: 'Document 1', text: '', tags: [] },
+  { id: 'doc-2', name: 'Document 2', text: '', tags: [] },
+];
+
 export const DEFAULT_MIND_MAP_DATA = {
   nodes: [
     { id: "AI", group: 1 },
@@ -0,0 +1,127 @@
+import { AgentConfig } from "../types";
+
+// `{{agent:Analyst 1}}` inside a prompt is replaced by that agent's latest output
+const AGENT_REF_RE = /\{\{\s*agent\s*:\s*([^}]+?)\s*\}\}/gi;
+
+export class AgentGraphError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentGraphError';
+  }
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const findAgentReferences = (prompt: string): string[] =>
+  [...new Set([...prompt.matchAll(AGENT_REF_RE)].map(m => m[1]))];
+
+export interface AgentDependencies {
+  dependsOn: Map<number, number[]>;
+  unknownRefs: Map<number, string[]>; // References to names no agent has
+}
+
+export const buildDependencies = (agents: AgentConfig[]): AgentDependencies => {
+  const byName = new Map(agents.map(a => [normalizeName(a.name), a.id]));
+  const dependsOn = new Map<number, number[]>();
+  const unknownRefs = new Map<number, string[]>();
+
+  for (const agent of agents) {
+    const ids: number[] = [];
+    const unknown: string[] = [];
+    for (const ref of findAgentReferences(agent.prompt)) {
+      const id = byName.get(normalizeName(ref));
+      if (id === undefined) unknown.push(ref);
+      else if (!ids.includes(id)) ids.push(id);
+    }
+    dependsOn.set(agent.id, ids);
+    if (unknown.length) unknownRefs.set(agent.id, unknown);
+  }
+  return { dependsOn, unknownRefs };
+};
+
+// Follows dependency edges from a node until it finds one already on the path
+const findCycle = (start: number, dependsOn: Map<number, number[]>, remaining: Set<number>): number[] => {
+  const path: number[] = [];
+  const visit = (id: number): number[] | null => {
+    const at = path.indexOf(id);
+    if (at >= 0) return [...path.slice(at), id];
+    path.push(id);
+    for (const dep of dependsOn.get(id) || []) {
+      if (!remaining.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return null;
+  };
+  return visit(start) || [start];
+};
+
+/**
+ * Groups agents into layers where every agent only depends on earlier layers, so each
+ * layer can run in parallel. Throws AgentGraphError on duplicate names, unknown references or cycles.
+ */
+export const topologicalLayers = (agents: AgentConfig[]): AgentConfig[][] => {
+  const { dependsOn, unknownRefs } = buildDependencies(agents);
+  const nameOf = (id: number) => agents.find(a => a.id === id)?.name || String(id);
+
+  // References are resolved by name, so two agents sharing one would be ambiguous
+  const duplicate = agents.find((a, i) => agents.findIndex(o => normalizeName(o.name) === normalizeName(a.name)) !== i);
+  if (duplicate) throw new AgentGraphError(`Several agents are named "${duplicate.name}"; agent names must be unique.`);
+
+  if (unknownRefs.size > 0) {
+    const [id, refs] = [...unknownRefs.entries()][0];
+    throw new AgentGraphError(`"${nameOf(id)}" references unknown agent(s): ${refs.join(', ')}`);
+  }
+
+  const remaining = new Set(agents.map(a => a.id));
+  const layers: AgentConfig[][] = [];
+  while (remaining.size > 0) {
+    const ready = agents.filter(a => remaining.has(a.id) && (dependsOn.get(a.id) || []).every(dep => !remaining.has(dep)));
+    if (ready.length === 0) {
+      const cycle = findCycle([...remaining][0], dependsOn, remaining);
+      throw new AgentGraphError(`Agent dependency cycle: ${cycle.map(nameOf).join(' → ')}`);
+    }
+    ready.forEach(a => remaining.delete(a.id));
+    layers.push(ready);
+  }
+  return layers;
+};
+
+// Every agent that transitively consumes the output of `id`, in execution order
+export const downstreamLayers = (id: number, agents: AgentConfig[]): AgentConfig[][] => {
+  const { dependsOn } = buildDependencies(agents);
+  const affected = new Set<number>();
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const agent of agents) {
+      if (affected.has(agent.id) || agent.id === id) continue;
+      if ((dependsOn.get(agent.id) || []).some(dep => dep === id || affected.has(dep))) {
+        affected.add(agent.id);
+        grew = true;
+      }
+    }
+  }
+  if (affected.size === 0) return [];
+  // Layer the affected subgraph on its own; edges to unaffected agents are already satisfied
+  const subgraph = agents.filter(a => affected.has(a.id)).map(a => ({
+    ...a,
+    prompt: a.prompt.replace(AGENT_REF_RE, (match, name) =>
+      agents.some(o => affected.has(o.id) && normalizeName(o.name) === normalizeName(name)) ? match : '')
+  }));
+  return topologicalLayers(subgraph).map(layer => layer.map(a => agents.find(o => o.id === a.id)!));
+};
+
+// Substitutes upstream outputs into the prompt; `outputs` is keyed by agent name
+export const resolveAgentReferences = (prompt: string, outputs: Record<string, string | undefined>): string => {
+  const normalized = new Map(Object.entries(outputs).map(([name, out]) => [normalizeName(name), out]));
+  return prompt.replace(AGENT_REF_RE, (_match, name) => {
+    const output = normalized.get(normalizeName(name));
+    return output ? `\n<<< Output of ${name.trim()} >>>\n${output}\n<<< End of ${name.trim()} >>>\n` : `[No output yet from ${name.trim()}]`;
+  });
+};
+
+// Points `{{agent:from}}` references at a renamed agent
+export const renameAgentReferences = (prompt: string, from: string, to: string): string =>
+  prompt.replace(AGENT_REF_RE, (match, name) => normalizeName(name) === normalizeName(from) ? `{{agent:${to}}}` : match);
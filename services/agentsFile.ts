@@ -0,0 +1,352 @@
+import yaml from 'js-yaml';
+import { AgentConfig, LLMModelInfo, LLMProvider, PromptTemplate, PromptVariable } from "../types";
+import { renameAgentReferences } from "./agentGraph";
+
+/*
+ * agents.yaml format (version 3)
+ *
+ *   version: 3
+ *   agents:
+ *     - id: 1                      # integer, unique within the file
+ *       name: Analyst 1            # non-empty, referenced by {{agent:Name}}
+ *       prompt: Summarize...
+ *       provider: Gemini           # Gemini | Other
+ *       model: gemini-2.5-flash    # must be a known or custom model
+ *       maxTokens: 1000
+ *       temperature: 0.7
+ *       documentIds: [doc-1]       # workspace documents read as context
+ *       documentTags: [contract]   # optional, adds every document with one of these tags
+ *       ...                        # optional generation, output and template fields
+ *   templates: []                  # saved prompt templates
+ *
+ * Older files are migrated on load: version 0 is a bare list of agents, version 1 an
+ * object with `agents` and `templates` but no version header, and version 2 selects
+ * context with `contextType: doc1 | doc2 | both`. Run state (outputs, usage, loading
+ * flags) is never written.
+ */
+export const AGENTS_FILE_VERSION = 3;
+
+export interface AgentsFileIssue {
+  line?: number; // 1-based
+  message: string;
+}
+
+export class AgentsFileError extends Error {
+  issues: AgentsFileIssue[];
+
+  constructor(issues: AgentsFileIssue[]) {
+    super(issues.map(formatIssue).join('\n'));
+    this.name = 'AgentsFileError';
+    this.issues = issues;
+  }
+}
+
+export interface AgentsFile {
+  agents: AgentConfig[];
+  templates: PromptTemplate[];
+  warnings: AgentsFileIssue[]; // Ignored fields and other non-fatal findings
+  migratedFrom?: number;
+}
+
+export const formatIssue = (issue: AgentsFileIssue) =>
+  issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message;
+
+// Fields that describe a run rather than the agent; stripped on export and import
+const RUNTIME_FIELDS = ['output', 'jsonOutput', 'validationErrors', 'repairedFrom', 'incomplete', 'bypassCache', 'usage', 'isLoading'] as const;
+
+const AGENT_FIELDS = new Set([
+  'id', 'name', 'prompt', 'provider', 'model', 'maxTokens', 'temperature', 'systemInstruction', 'topP', 'topK',
+  'stopSequences', 'seed', 'thinkingBudget', 'documentIds', 'documentTags', 'outputMode', 'responseSchema', 'templateId',
+  'templateVersion', 'variables', 'variableValues', 'comparison'
+]);
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+const isProvider = (value: unknown): value is LLMProvider => (Object.values(LLMProvider) as unknown[]).includes(value);
+
+const stripRuntime = (agent: AgentConfig | RawObject) => {
+  const copy: Record<string, unknown> = { ...agent };
+  RUNTIME_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+};
+
+export const serializeAgentsFile = (agents: AgentConfig[], templates: PromptTemplate[]): string =>
+  `# Agents file, format version ${AGENTS_FILE_VERSION}\n` + yaml.dump({
+    version: AGENTS_FILE_VERSION,
+    agents: agents.map(stripRuntime),
+    templates: templates.filter(t => !t.builtIn)
+  });
+
+// The part of js-yaml's loader state its listener is given that we read
+interface LoaderState {
+  line: number;
+  result: unknown;
+}
+
+// Loads YAML while remembering the line each object or list starts on
+const loadWithLines = (text: string) => {
+  const lines = new WeakMap<object, number>();
+  const open: number[] = [];
+  const data: unknown = yaml.load(text, {
+    listener: (event: string, state: LoaderState) => {
+      if (event === 'open') open.push(state.line);
+      else {
+        const line = open.pop();
+        if (state.result && typeof state.result === 'object' && line !== undefined) lines.set(state.result, line);
+      }
+    }
+  });
+  return { data, lines };
+};
+
+// Rewrites the agent objects of a raw file, leaving anything malformed for validation to report
+const migrateAgents = (file: unknown, version: number, migrate: (agent: RawObject) => RawObject): RawObject => {
+  const raw = isObject(file) ? file : {};
+  return { ...raw, version, agents: Array.isArray(raw.agents) ? raw.agents.map(a => isObject(a) ? migrate(a) : a) : raw.agents };
+};
+
+const CONTEXT_DOCUMENTS = new Map([['doc1', ['doc-1']], ['doc2', ['doc-2']], ['both', ['doc-1', 'doc-2']]]);
+
+// Each migration upgrades the raw file by one version
+const MIGRATIONS: Record<number, (file: unknown) => RawObject> = {
+  0: (list) => ({ agents: list, templates: [] }),
+  // Files saved before provider selection existed only target Gemini
+  1: (file) => migrateAgents(file, 2, a => ({ ...a, provider: a.provider || LLMProvider.GEMINI })),
+  // The fixed two-document layout became a document workspace whose first two ids are doc-1 and doc-2
+  2: (file) => migrateAgents(file, 3, a => {
+    if ('documentIds' in a) return a;
+    const { contextType, ...rest } = a;
+    return { ...rest, documentIds: typeof contextType === 'string' ? CONTEXT_DOCUMENTS.get(contextType) : undefined };
+  }),
+};
+
+const detectVersion = (data: unknown): unknown => {
+  if (Array.isArray(data)) return 0;
+  if (isObject(data)) return data.version === undefined ? 1 : data.version;
+  return undefined;
+};
+
+/**
+ * Parses, migrates and validates an agents file. Throws AgentsFileError listing every
+ * problem with its line number; nothing is loaded unless the whole file is valid.
+ */
+export const parseAgentsFile = (text: string, models: LLMModelInfo[]): AgentsFile => {
+  let loaded: ReturnType<typeof loadWithLines>;
+  try {
+    loaded = loadWithLines(text);
+  } catch (err) {
+    // js-yaml errors carry the position in `mark` and the message without it in `reason`
+    const mark = isObject(err) && isObject(err.mark) ? err.mark : undefined;
+    const reason = isObject(err) && typeof err.reason === 'string' ? err.reason : undefined;
+    throw new AgentsFileError([{
+      line: mark && isInteger(mark.line) ? mark.line + 1 : undefined,
+      message: reason || (err instanceof Error ? err.message : String(err))
+    }]);
+  }
+
+  const { lines } = loaded;
+  const textLines = text.split('\n');
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  // The object starting on `start` ends before the next line indented no deeper than its siblings:
+  // the next `- ` item, a closing `}` or the parent's next key
+  const blockEnd = (start: number) => {
+    const first = textLines[start];
+    const dash = first.match(/^\s*- /);
+    const own = dash ? dash[0].length - 2 : indentOf(first);
+    const endsAt = (indent: number) => dash || /^\s*[{[]/.test(first) ? indent <= own : indent < own;
+    for (let i = start + 1; i < textLines.length; i++) {
+      const trimmed = textLines[i].trim();
+      if (trimmed && !trimmed.startsWith('#') && endsAt(indentOf(textLines[i]))) return i;
+    }
+    return textLines.length;
+  };
+  const lineOf = (obj: unknown, key?: string) => {
+    if (!obj || typeof obj !== 'object' || !lines.has(obj)) return undefined;
+    const start = lines.get(obj)!;
+    if (key) {
+      // First `key:` within the object's own lines, so a missing key is not found in the next sibling
+      const re = new RegExp(`^\\s*(- )?${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*:`);
+      const end = blockEnd(start);
+      for (let i = start; i < end; i++) {
+        if (re.test(textLines[i])) return i + 1;
+      }
+    }
+    return start + 1;
+  };
+
+  const originalVersion = detectVersion(loaded.data);
+  if (typeof originalVersion !== 'number' || !Number.isInteger(originalVersion) || originalVersion < 0) {
+    throw new AgentsFileError([{ line: lineOf(loaded.data, 'version'), message: 'Expected a list of agents or an object with a numeric "version" and "agents".' }]);
+  }
+  if (originalVersion > AGENTS_FILE_VERSION) {
+    throw new AgentsFileError([{ line: lineOf(loaded.data, 'version'), message: `File format version ${originalVersion} is newer than this app supports (${AGENTS_FILE_VERSION}).` }]);
+  }
+
+  // Migrations copy the top-level object, but agent objects keep their identity and line numbers
+  let migrated: unknown = loaded.data;
+  for (let v = originalVersion; v < AGENTS_FILE_VERSION; v++) migrated = MIGRATIONS[v](migrated);
+  const file = isObject(migrated) ? migrated : {};
+  const rawAgents = Array.isArray(loaded.data) ? loaded.data : isObject(loaded.data) ? loaded.data.agents : undefined;
+
+  const errors: AgentsFileIssue[] = [];
+  const warnings: AgentsFileIssue[] = [];
+  const fileAgents = file.agents;
+  if (!Array.isArray(fileAgents)) {
+    throw new AgentsFileError([{ line: lineOf(loaded.data, 'agents'), message: '"agents" must be a list.' }]);
+  }
+
+  const seenIds = new Map<number, string>();
+  const seenNames = new Set<string>();
+  const agents: AgentConfig[] = [];
+
+  fileAgents.forEach((agent: unknown, i: number) => {
+    const source: unknown = Array.isArray(rawAgents) ? rawAgents[i] : agent;
+    const where = `agents[${i}]`;
+    const fail = (key: string | undefined, message: string) =>
+      errors.push({ line: lineOf(source, key), message: `${where}${key ? `.${key}` : ''}: ${message}` });
+
+    if (!isObject(agent)) {
+      errors.push({ line: lineOf(rawAgents), message: `${where}: expected an agent object` });
+      return;
+    }
+    const before = errors.length;
+
+    if (!isInteger(agent.id)) fail('id', 'must be an integer');
+    else if (seenIds.has(agent.id)) fail('id', `duplicate id ${agent.id} (also used by "${seenIds.get(agent.id)}")`);
+    else seenIds.set(agent.id, String(agent.name));
+
+    if (typeof agent.name !== 'string' || !agent.name.trim()) fail('name', 'must be a non-empty string');
+    else if (seenNames.has(agent.name.trim().toLowerCase())) fail('name', `duplicate name "${agent.name}"`);
+    else seenNames.add(agent.name.trim().toLowerCase());
+
+    if (typeof agent.prompt !== 'string') fail('prompt', 'must be a string');
+    if (!isProvider(agent.provider)) fail('provider', `must be one of ${Object.values(LLMProvider).join(', ')}`);
+    if (typeof agent.model !== 'string') fail('model', 'must be a string');
+    else if (!models.some(m => m.id === agent.model && m.provider === agent.provider)) {
+      fail('model', `unknown ${agent.provider} model "${agent.model}" (custom models can be added in Settings)`);
+    }
+
+    if (!isInteger(agent.maxTokens) || agent.maxTokens < 1) fail('maxTokens', 'must be a positive integer');
+    if (typeof agent.temperature !== 'number' || agent.temperature < 0 || agent.temperature > 2) fail('temperature', 'must be a number between 0 and 2');
+    if (!isStringList(agent.documentIds)) {
+      // Older files only lack documentIds when their contextType could not be migrated
+      if (originalVersion < 3 && isObject(source) && 'contextType' in source) fail('contextType', 'must be doc1, doc2 or both');
+      else fail('documentIds', 'must be a list of document ids');
+    }
+    if (agent.documentTags !== undefined && !isStringList(agent.documentTags)) fail('documentTags', 'must be a list of strings');
+
+    if (agent.systemInstruction !== undefined && typeof agent.systemInstruction !== 'string') fail('systemInstruction', 'must be a string');
+    if (agent.topP !== undefined && (typeof agent.topP !== 'number' || agent.topP < 0 || agent.topP > 1)) fail('topP', 'must be a number between 0 and 1');
+    if (agent.topK !== undefined && (!isInteger(agent.topK) || agent.topK < 1)) fail('topK', 'must be a positive integer');
+    if (agent.seed !== undefined && !Number.isInteger(agent.seed)) fail('seed', 'must be an integer');
+    if (agent.thinkingBudget !== undefined && (!isInteger(agent.thinkingBudget) || agent.thinkingBudget < -1)) fail('thinkingBudget', 'must be an integer of at least -1');
+    if (agent.stopSequences !== undefined && !isStringList(agent.stopSequences)) fail('stopSequences', 'must be a list of strings');
+    if (agent.outputMode !== undefined && agent.outputMode !== 'text' && agent.outputMode !== 'json') fail('outputMode', 'must be text or json');
+    if (agent.responseSchema !== undefined && !isObject(agent.responseSchema)) {
+      fail('responseSchema', 'must be an object');
+    }
+    if (agent.templateId !== undefined && typeof agent.templateId !== 'string') fail('templateId', 'must be a string');
+    if (agent.templateVersion !== undefined && !Number.isInteger(agent.templateVersion)) fail('templateVersion', 'must be an integer');
+    if (agent.variables !== undefined) validateVariables(agent.variables, message => fail('variables', message));
+    if (agent.variableValues !== undefined && (!isObject(agent.variableValues)
+      || Object.values(agent.variableValues).some(v => typeof v !== 'string'))) {
+      fail('variableValues', 'must map variable names to strings');
+    }
+
+    if (agent.comparison !== undefined) validateComparison(agent.comparison, models, message => fail('comparison', message));
+
+    for (const key of Object.keys(agent)) {
+      if (!AGENT_FIELDS.has(key) && !(RUNTIME_FIELDS as readonly string[]).includes(key)) {
+        warnings.push({ line: lineOf(source, key), message: `${where}.${key}: unknown field ignored` });
+      }
+    }
+
+    if (errors.length === before) {
+      // Validated above, so the remaining fields have the types AgentConfig declares
+      const clean = stripRuntime(agent);
+      Object.keys(clean).forEach(key => { if (!AGENT_FIELDS.has(key)) delete clean[key]; });
+      agents.push({ ...(clean as unknown as AgentConfig), isLoading: false });
+    }
+  });
+
+  const templates: PromptTemplate[] = [];
+  const rawTemplates: unknown = file.templates ?? [];
+  if (!Array.isArray(rawTemplates)) {
+    errors.push({ line: lineOf(loaded.data, 'templates'), message: '"templates" must be a list' });
+  } else {
+    const seenTemplates = new Set<string>();
+    rawTemplates.forEach((tpl: unknown, i: number) => {
+      const fail = (key: string | undefined, message: string) =>
+        errors.push({ line: lineOf(tpl, key), message: `templates[${i}]${key ? `.${key}` : ''}: ${message}` });
+      if (!isObject(tpl)) return fail(undefined, 'expected a template object');
+      const before = errors.length;
+      if (typeof tpl.id !== 'string' || !tpl.id) fail('id', 'must be a non-empty string');
+      else if (seenTemplates.has(tpl.id)) fail('id', `duplicate id "${tpl.id}"`);
+      else seenTemplates.add(tpl.id);
+      if (typeof tpl.name !== 'string' || !tpl.name.trim()) fail('name', 'must be a non-empty string');
+      if (!isInteger(tpl.version) || tpl.version < 1) fail('version', 'must be a positive integer');
+      if (typeof tpl.prompt !== 'string') fail('prompt', 'must be a string');
+      validateVariables(tpl.variables, message => fail('variables', message));
+      if (tpl.history !== undefined && !Array.isArray(tpl.history)) fail('history', 'must be a list');
+      if (errors.length === before && !tpl.builtIn) templates.push(tpl as unknown as PromptTemplate);
+    });
+  }
+
+  if (errors.length > 0) throw new AgentsFileError(errors);
+  return { agents, templates, warnings, migratedFrom: originalVersion < AGENTS_FILE_VERSION ? originalVersion : undefined };
+};
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const VARIABLE_TYPES: unknown[] = ['text', 'multiline', 'number', 'select'] satisfies PromptVariable['type'][];
+
+const validateVariables = (variables: unknown, fail: (message: string) => void) => {
+  if (!Array.isArray(variables)) return fail('must be a list');
+  variables.forEach((v: unknown, i) => {
+    if (!isObject(v) || typeof v.name !== 'string' || !/^[A-Za-z_]\w*$/.test(v.name)) fail(`[${i}] needs a name made of letters, digits and _`);
+    else if (!VARIABLE_TYPES.includes(v.type)) fail(`[${i}] "${v.name}" has unknown type "${v.type}"`);
+  });
+};
+
+const validateComparison = (comparison: unknown, models: LLMModelInfo[], fail: (message: string) => void) => {
+  if (!isObject(comparison) || typeof comparison.enabled !== 'boolean') return fail('needs a boolean "enabled"');
+  const known = (t: unknown) => isObject(t) && models.some(m => m.provider === t.provider && m.id === t.model);
+  const targets = comparison.targets;
+  if (!Array.isArray(targets)) return fail('"targets" must be a list');
+  targets.forEach((t: unknown, i: number) => {
+    if (!known(t)) fail(`targets[${i}] is not a known model`);
+  });
+  if (comparison.judge !== undefined && !known(comparison.judge)) fail('judge is not a known model');
+  if (comparison.rubric !== undefined && typeof comparison.rubric !== 'string') fail('rubric must be a string');
+};
+
+/**
+ * Appends imported agents to the roster. Clashing ids get fresh ones and clashing names a
+ * suffix, with `{{agent:Name}}` references among the imported agents updated to match.
+ */
+export const mergeAgents = (current: AgentConfig[], incoming: AgentConfig[]): AgentConfig[] => {
+  const ids = new Set(current.map(a => a.id));
+  const names = new Set(current.map(a => a.name.trim().toLowerCase()));
+  let nextId = Math.max(Date.now(), ...ids) + 1;
+
+  const renames: [string, string][] = [];
+  const added = incoming.map(agent => {
+    const id = ids.has(agent.id) ? nextId++ : agent.id;
+    ids.add(id);
+    let name = agent.name;
+    for (let n = 2; names.has(name.trim().toLowerCase()); n++) name = `${agent.name} (${n})`;
+    names.add(name.trim().toLowerCase());
+    if (name !== agent.name) renames.push([agent.name, name]);
+    return { ...agent, id, name };
+  });
+
+  return [
+    ...current,
+    ...added.map(agent => ({
+      ...agent,
+      prompt: renames.reduce((prompt, [from, to]) => renameAgentReferences(prompt, from, to), agent.prompt)
+    }))
+  ];
+};
@@ -0,0 +1,81 @@
+import { BatchConfig, BatchItemResult, BatchItemStatus, BatchReport } from "../types";
+
+export const DEFAULT_BATCH_CONFIG: BatchConfig = {
+  concurrency: 3,
+  failFast: false,
+};
+
+export interface BatchOptions {
+  dependsOn?: Map<number, number[]>; // Items wait for these; dependencies outside the batch count as met
+  onStatus?: (id: number, status: BatchItemStatus) => void;
+  signal?: AbortSignal; // Stops the whole batch
+}
+
+// The worker receives a signal that fires when the batch is stopped or fails fast
+export type BatchWorker = (id: number, signal: AbortSignal) => Promise<unknown>;
+
+/**
+ * Runs items with at most `config.concurrency` in flight, starting each as soon as its
+ * dependencies are done. Items whose dependency failed or that never started are skipped.
+ * Never rejects: failures are reported per item.
+ */
+export const runBatch = (
+  ids: number[],
+  worker: BatchWorker,
+  config: BatchConfig,
+  options: BatchOptions = {}
+): Promise<BatchReport> => new Promise(resolve => {
+  const startedAt = Date.now();
+  const results = new Map<number, BatchItemResult>(ids.map(id => [id, { id, status: 'queued' }]));
+  const controller = new AbortController();
+  let running = 0;
+
+  if (options.signal?.aborted) controller.abort();
+  options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+  const update = (id: number, patch: Omit<BatchItemResult, 'id'>) => {
+    results.set(id, { ...results.get(id)!, ...patch });
+    options.onStatus?.(id, patch.status);
+  };
+  const statusOf = (id: number) => results.get(id)?.status;
+
+  const start = (id: number) => {
+    running++;
+    update(id, { status: 'running' });
+    const begun = Date.now();
+    worker(id, controller.signal)
+      .then(() => update(id, { status: 'done', durationMs: Date.now() - begun }))
+      .catch((err: unknown) => {
+        update(id, { status: 'failed', error: err instanceof Error ? err.message : String(err), durationMs: Date.now() - begun });
+        if (config.failFast) controller.abort();
+      })
+      .finally(() => {
+        running--;
+        pump();
+      });
+  };
+
+  const pump = () => {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const id of ids) {
+        if (statusOf(id) !== 'queued') continue;
+        const deps = (options.dependsOn?.get(id) || []).filter(dep => results.has(dep));
+        if (controller.signal.aborted || deps.some(dep => statusOf(dep) === 'failed' || statusOf(dep) === 'skipped')) {
+          update(id, { status: 'skipped' });
+          changed = true;
+        } else if (running < Math.max(1, config.concurrency) && deps.every(dep => statusOf(dep) === 'done')) {
+          start(id);
+          changed = true;
+        }
+      }
+    }
+    if (running > 0) return;
+    // Anything still queued waits on a cycle and can never start
+    ids.filter(id => statusOf(id) === 'queued').forEach(id => update(id, { status: 'skipped' }));
+    resolve({ startedAt, finishedAt: Date.now(), results: ids.map(id => results.get(id)!) });
+  };
+
+  pump();
+});
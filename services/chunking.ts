@@ -0,0 +1,104 @@
+export interface TextChunk {
+  index: number;
+  text: string;
+  start: number; // Offset of the first character in the source text
+  end: number;   // Offset just past the last character in the source text
+}
+
+export interface ChunkOptions {
+  maxChars: number;
+  overlap?: number; // Characters of the previous chunk repeated at the start of the next one
+}
+
+interface Block {
+  start: number;
+  end: number;
+  isHeading: boolean;
+}
+
+const HEADING_RE = /^(#{1,6}\s|[A-Z0-9][^\n]{0,80}\n[=-]{3,})/;
+const SENTENCE_END_RE = /[.!?。！？]\s+/g;
+
+// Paragraphs are separated by blank lines; a Markdown heading always opens a new block
+const splitBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  const re = /\n\s*\n|\n(?=#{1,6}\s)/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    if (raw.trim()) blocks.push({ start, end, isHeading: HEADING_RE.test(raw.trimStart()) });
+  };
+  while ((match = re.exec(text)) !== null) {
+    push(match.index);
+    start = match.index + match[0].length;
+  }
+  push(text.length);
+  return blocks;
+};
+
+// Splits an oversized block at sentence ends, falling back to hard cuts
+const splitLongBlock = (text: string, block: Block, maxChars: number): Block[] => {
+  const parts: Block[] = [];
+  let start = block.start;
+  while (block.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    let cut = 0;
+    SENTENCE_END_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = SENTENCE_END_RE.exec(window)) !== null) cut = m.index + m[0].length;
+    if (cut < maxChars / 2) {
+      const space = window.lastIndexOf(' ');
+      cut = space > maxChars / 2 ? space + 1 : maxChars;
+    }
+    parts.push({ start, end: start + cut, isHeading: parts.length === 0 && block.isHeading });
+    start += cut;
+  }
+  parts.push({ start, end: block.end, isHeading: false });
+  return parts;
+};
+
+// Start of the overlap region: the last paragraph or sentence boundary inside the tail
+const overlapStart = (text: string, chunkStart: number, chunkEnd: number, overlap: number) => {
+  const from = Math.max(chunkStart, chunkEnd - overlap);
+  const tail = text.slice(from, chunkEnd);
+  const para = tail.indexOf('\n\n');
+  if (para >= 0 && para < tail.length - 1) return from + para + 2;
+  SENTENCE_END_RE.lastIndex = 0;
+  const sentence = SENTENCE_END_RE.exec(tail);
+  if (sentence) return from + sentence.index + sentence[0].length;
+  return from;
+};
+
+/**
+ * Splits text into chunks of at most `maxChars` (plus overlap), preferring to break
+ * between paragraphs and before headings so each chunk stays self-contained.
+ */
+export const chunkText = (text: string, { maxChars, overlap = 0 }: ChunkOptions): TextChunk[] => {
+  if (text.length <= maxChars) return [{ index: 0, text, start: 0, end: text.length }];
+
+  const blocks = splitBlocks(text).flatMap(b => b.end - b.start > maxChars ? splitLongBlock(text, b, maxChars) : [b]);
+  const ranges: { start: number; end: number }[] = [];
+  let current: { start: number; end: number } | null = null;
+
+  for (const block of blocks) {
+    if (current) {
+      const size = block.end - current.start;
+      // Close the chunk when full, or early at a heading once it is reasonably filled
+      const breakAtHeading = block.isHeading && current.end - current.start > maxChars / 2;
+      if (size > maxChars || breakAtHeading) {
+        ranges.push(current);
+        current = null;
+      }
+    }
+    if (current) current.end = block.end;
+    else current = { start: block.start, end: block.end };
+  }
+  if (current) ranges.push(current);
+
+  return ranges.map((range, index) => {
+    const prev = ranges[index - 1];
+    const start = prev && overlap > 0 ? overlapStart(text, prev.start, prev.end, overlap) : range.start;
+    return { index, text: text.slice(start, range.end), start, end: range.end };
+  });
+};
@@ -0,0 +1,161 @@
+import { DiffPart, diffSequences, diffWords } from "./textDiff";
+
+export type DiffRowType = 'equal' | 'modified' | 'added' | 'removed' | 'moved';
+
+// One aligned line of the side-by-side view; `left`/`right` are missing on the side without the paragraph
+export interface DiffRow {
+  type: DiffRowType;
+  left?: string;
+  right?: string;
+  words?: DiffPart[]; // Word changes for modified paragraphs and moves that were also edited
+  moveId?: number; // Shared by the source and destination rows of a moved paragraph
+}
+
+export interface DiffStats {
+  equal: number; // Paragraph counts by kind
+  modified: number;
+  added: number;
+  removed: number;
+  moved: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+  similarity: number; // Share of words left unchanged, 0 to 1
+}
+
+export interface DocumentDiff {
+  rows: DiffRow[];
+  hunks: number[]; // Index of the first row of every run of changes
+  stats: DiffStats;
+}
+
+// Paragraphs pair up as "modified" above this word overlap, and count as moved above MOVE_SIMILARITY
+const MODIFIED_SIMILARITY = 0.5;
+const MOVE_SIMILARITY = 0.85;
+
+export const splitParagraphs = (text: string) =>
+  text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+const words = (text: string) => text.toLowerCase().match(/[^\s]+/g) || [];
+const countWords = (text: string) => words(text).length;
+
+// Dice coefficient over word multisets; cheap and order-insensitive
+const similarity = (a: string, b: string) => {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.length + wb.length === 0) return 1;
+  const counts = new Map<string, number>();
+  wa.forEach(w => counts.set(w, (counts.get(w) || 0) + 1));
+  let shared = 0;
+  wb.forEach(w => {
+    const c = counts.get(w) || 0;
+    if (c > 0) {
+      shared++;
+      counts.set(w, c - 1);
+    }
+  });
+  return (2 * shared) / (wa.length + wb.length);
+};
+
+// Pairs removed and added paragraphs of one change block in order when they are similar enough
+const alignBlock = (removed: string[], added: string[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let j = 0;
+  for (const left of removed) {
+    const match = added.findIndex((right, k) => k >= j && similarity(left, right) >= MODIFIED_SIMILARITY);
+    if (match < 0) {
+      rows.push({ type: 'removed', left });
+      continue;
+    }
+    added.slice(j, match).forEach(right => rows.push({ type: 'added', right }));
+    rows.push({ type: 'modified', left, right: added[match], words: diffWords(left, added[match]) });
+    j = match + 1;
+  }
+  added.slice(j).forEach(right => rows.push({ type: 'added', right }));
+  return rows;
+};
+
+// Turns a removed paragraph and an added one elsewhere with (nearly) the same text into a move
+const detectMoves = (rows: DiffRow[]) => {
+  let nextMove = 1;
+  const added = rows.filter(r => r.type === 'added');
+  for (const row of rows) {
+    if (row.type !== 'removed') continue;
+    const target = added.find(r => r.type === 'added' && similarity(row.left!, r.right!) >= MOVE_SIMILARITY);
+    if (!target) continue;
+    const moveId = nextMove++;
+    const edited = row.left !== target.right;
+    Object.assign(row, { type: 'moved', moveId, words: edited ? diffWords(row.left!, target.right!) : undefined });
+    Object.assign(target, { type: 'moved', moveId, left: undefined, words: edited ? diffWords(row.left!, target.right!) : undefined });
+  }
+};
+
+/**
+ * Deterministic side-by-side comparison: paragraphs are aligned first, similar ones are
+ * diffed word by word and paragraphs that only changed position are reported as moves.
+ */
+export const diffDocuments = (before: string, after: string): DocumentDiff => {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    rows.push(...alignBlock(removed, added));
+    removed = [];
+    added = [];
+  };
+
+  for (const op of diffSequences(splitParagraphs(before), splitParagraphs(after))) {
+    if (op.type === 'removed') removed.push(op.value);
+    else if (op.type === 'added') added.push(op.value);
+    else {
+      flush();
+      rows.push({ type: 'equal', left: op.value, right: op.value });
+    }
+  }
+  flush();
+  detectMoves(rows);
+
+  const stats: DiffStats = { equal: 0, modified: 0, added: 0, removed: 0, moved: 0, wordsAdded: 0, wordsRemoved: 0, similarity: 1 };
+  let unchangedWords = 0;
+  rows.forEach(row => {
+    // Both halves of a move are rows; count the move once, at its source
+    if (row.type === 'moved') {
+      if (row.left !== undefined) stats.moved++;
+    } else {
+      stats[row.type]++;
+    }
+    if (row.type === 'equal') unchangedWords += countWords(row.left!);
+    else if (row.type === 'added') stats.wordsAdded += countWords(row.right!);
+    else if (row.type === 'removed') stats.wordsRemoved += countWords(row.left!);
+    else if (row.words && row.left !== undefined) {
+      row.words.forEach(part => {
+        if (part.type === 'added') stats.wordsAdded += countWords(part.text);
+        else if (part.type === 'removed') stats.wordsRemoved += countWords(part.text);
+        else unchangedWords += countWords(part.text);
+      });
+    } else if (row.left !== undefined) {
+      unchangedWords += countWords(row.left);
+    }
+  });
+  const total = countWords(before) + countWords(after);
+  stats.similarity = total === 0 ? 1 : (2 * unchangedWords) / total;
+
+  const hunks = rows.flatMap((row, i) => row.type !== 'equal' && (i === 0 || rows[i - 1].type === 'equal') ? [i] : []);
+  return { rows, hunks, stats };
+};
+
+const normalizeForSearch = (text: string) =>
+  text.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+
+/**
+ * Finds the row holding a quoted excerpt on one side, tolerating case and whitespace
+ * differences; falls back to the excerpt's first words when it spans paragraphs. -1 if absent.
+ */
+export const findExcerptRow = (rows: DiffRow[], side: 'left' | 'right', excerpt: string): number => {
+  const needle = normalizeForSearch(excerpt);
+  if (!needle) return -1;
+  const texts = rows.map(row => normalizeForSearch(row[side] || ''));
+  const exact = texts.findIndex(text => text.includes(needle));
+  if (exact >= 0) return exact;
+  const prefix = needle.split(' ').slice(0, 8).join(' ');
+  return texts.findIndex(text => text.includes(prefix));
+};
@@ -0,0 +1,31 @@
+import { AgentConfig, LLMModelInfo, WorkspaceDocument } from "../types";
+import { estimateTokens } from "./usageTracker";
+
+// Documents picked by id plus those carrying one of the agent's tags, in workspace order
+export const selectAgentDocuments = (agent: AgentConfig, documents: WorkspaceDocument[]): WorkspaceDocument[] => {
+  const tags = new Set(agent.documentTags || []);
+  return documents.filter(doc => agent.documentIds.includes(doc.id) || doc.tags.some(tag => tags.has(tag)));
+};
+
+// A single document is passed as is; several are labelled so prompts can refer to them by name
+export const buildDocumentContext = (documents: WorkspaceDocument[]): string => {
+  if (documents.length === 1) return documents[0].text;
+  return documents.map(doc => `Document "${doc.name}":\n${doc.text}`).join('\n\n');
+};
+
+export const allTags = (documents: WorkspaceDocument[]): string[] =>
+  [...new Set(documents.flatMap(doc => doc.tags))].sort();
+
+export interface ContextEstimate {
+  tokens: number; // Prompt and documents
+  window?: number;
+  exceeds: boolean; // Input plus the output allowance is larger than the window
+}
+
+export const estimateContext = (agent: AgentConfig, context: string, models: LLMModelInfo[]): ContextEstimate => {
+  const tokens = estimateTokens(agent.prompt.length + context.length);
+  const window = models.find(m => m.provider === agent.provider && m.id === agent.model)?.contextWindow;
+  return { tokens, window, exceeds: window !== undefined && tokens + agent.maxTokens > window };
+};
+
+export const newDocumentId = () => `doc-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
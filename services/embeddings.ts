@@ -0,0 +1,113 @@
+import { LLMProvider, ModelTarget, ProviderSettings, UsageFeature } from "../types";
+import { embedTexts } from "./llmProvider";
+import { sha256Hex } from "./responseCache";
+import { createDbOpener, request } from "./idb";
+
+export const DEFAULT_EMBEDDING_MODEL: ModelTarget = { provider: LLMProvider.GEMINI, model: 'gemini-embedding-001' };
+
+// Vectors are kept in memory and in IndexedDB, so unchanged text is never embedded twice
+const DB_NAME = 'florai-embeddings';
+const STORE = 'vectors';
+
+// A 3072-dimension vector takes about 24 KB, so this keeps the store near 120 MB
+export const MAX_STORED_VECTORS = 5000;
+
+interface StoredVector {
+  vector: number[];
+  usedAt: number;
+}
+
+const memory = new Map<string, number[]>();
+
+// Version 1 stored bare vectors without a last-use time; they are dropped rather than migrated
+const openDb = createDbOpener(DB_NAME, 2, db => {
+  if (db.objectStoreNames.contains(STORE)) db.deleteObjectStore(STORE);
+  db.createObjectStore(STORE).createIndex('usedAt', 'usedAt');
+});
+
+const readStored = async (keys: string[]): Promise<(number[] | undefined)[]> => {
+  if (typeof indexedDB === 'undefined') return keys.map(() => undefined);
+  const store = (await openDb()).transaction(STORE, 'readwrite').objectStore(STORE);
+  const entries = await Promise.all(keys.map(key => request<StoredVector | undefined>(store.get(key))));
+  // Touched so that eviction keeps the vectors still in use
+  const now = Date.now();
+  await Promise.all(entries.map((entry, i) => entry && request(store.put({ ...entry, usedAt: now }, keys[i]))));
+  return entries.map(entry => entry?.vector);
+};
+
+// Drops the least recently used vectors beyond MAX_STORED_VECTORS
+const evictStored = async () => {
+  const index = (await openDb()).transaction(STORE, 'readwrite').objectStore(STORE).index('usedAt');
+  let excess = await request(index.count()) - MAX_STORED_VECTORS;
+  if (excess <= 0) return;
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = index.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess-- <= 0) return resolve();
+      cursor.delete();
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+};
+
+const writeStored = async (entries: [string, number[]][]) => {
+  if (typeof indexedDB === 'undefined') return;
+  const store = (await openDb()).transaction(STORE, 'readwrite').objectStore(STORE);
+  const now = Date.now();
+  await Promise.all(entries.map(([key, vector]) => request(store.put({ vector, usedAt: now } satisfies StoredVector, key))));
+  await evictStored();
+};
+
+export const countStoredEmbeddings = async () => {
+  if (typeof indexedDB === 'undefined') return 0;
+  return request((await openDb()).transaction(STORE, 'readonly').objectStore(STORE).count());
+};
+
+export const clearEmbeddingCache = async () => {
+  memory.clear();
+  if (typeof indexedDB === 'undefined') return;
+  await request((await openDb()).transaction(STORE, 'readwrite').objectStore(STORE).clear());
+};
+
+/**
+ * Embeds texts with the given model, calling the provider only for texts it has not
+ * embedded before. A storage failure only costs the cache, never the request.
+ */
+export const embedCached = async (
+  target: ModelTarget,
+  settings: ProviderSettings,
+  texts: string[],
+  feature: UsageFeature,
+  signal?: AbortSignal
+): Promise<number[][]> => {
+  const keys = await Promise.all(texts.map(text => sha256Hex(`${target.provider}\u0000${target.model}\u0000${text}`)));
+  const missing = [...new Set(keys.filter(key => !memory.has(key)))];
+  if (missing.length > 0) {
+    const stored = await readStored(missing).catch(() => missing.map(() => undefined));
+    missing.forEach((key, i) => stored[i] && memory.set(key, stored[i]!));
+  }
+
+  const toEmbed = [...new Set(keys.filter(key => !memory.has(key)))];
+  if (toEmbed.length > 0) {
+    const textOf = new Map(keys.map((key, i) => [key, texts[i]]));
+    const vectors = await embedTexts(target, settings, toEmbed.map(key => textOf.get(key)!), feature, signal);
+    toEmbed.forEach((key, i) => memory.set(key, vectors[i]));
+    // Like a failed read, a failed write only means the vectors are embedded again next session
+    await writeStored(toEmbed.map((key, i) => [key, vectors[i]])).catch(() => undefined);
+  }
+  return keys.map(key => memory.get(key)!);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
@@ -0,0 +1,113 @@
+export type LLMErrorKind =
+  | 'missingKey'
+  | 'quota'
+  | 'safety'
+  | 'malformedJson'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+// Base class for every failure surfaced by the service layer
+export class LLMError extends Error {
+  kind: LLMErrorKind = 'unknown';
+  retryable = false;
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.status = status;
+  }
+}
+
+export class MissingKeyError extends LLMError {
+  kind: LLMErrorKind = 'missingKey';
+}
+
+// Rate limit or exhausted quota (HTTP 429)
+export class QuotaError extends LLMError {
+  kind: LLMErrorKind = 'quota';
+  retryable = true;
+}
+
+// The prompt or response was blocked by the provider's safety filters
+export class SafetyBlockError extends LLMError {
+  kind: LLMErrorKind = 'safety';
+}
+
+// The model was asked for JSON but returned something unparseable
+export class MalformedJSONError extends LLMError {
+  kind: LLMErrorKind = 'malformedJson';
+  raw: string;
+
+  constructor(message: string, raw: string) {
+    super(message);
+    this.raw = raw;
+  }
+}
+
+export class NetworkError extends LLMError {
+  kind: LLMErrorKind = 'network';
+  retryable = true;
+}
+
+export class TimeoutError extends LLMError {
+  kind: LLMErrorKind = 'timeout';
+  retryable = true;
+}
+
+// HTTP 5xx from the provider
+export class ServerError extends LLMError {
+  kind: LLMErrorKind = 'server';
+  retryable = true;
+}
+
+export class CancelledError extends LLMError {
+  kind: LLMErrorKind = 'cancelled';
+}
+
+const isHttpStatus = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 100 && value <= 599;
+
+// Messages only count when they lead with the status or label it; a bare number could be anything
+const STATUS_IN_MESSAGE = /^\[?(\d{3})\b|\bHTTP\/?[\d.]* (\d{3})\b|\bstatus(?: code)?:? (\d{3})\b/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const statusOf = (err: unknown): number | undefined => {
+  if (!isRecord(err)) return undefined;
+  const nested = (key: string, field: string) => {
+    const value = err[key];
+    return isRecord(value) ? value[field] : undefined;
+  };
+  for (const candidate of [err.status, err.code, nested('error', 'code'), nested('response', 'status')]) {
+    if (isHttpStatus(candidate)) return candidate;
+  }
+  const match = typeof err.message === 'string' ? STATUS_IN_MESSAGE.exec(err.message) : null;
+  const status = match ? Number(match[1] ?? match[2] ?? match[3]) : undefined;
+  return isHttpStatus(status) ? status : undefined;
+};
+
+// Maps SDK, fetch and HTTP failures onto the typed errors above
+export const classifyError = (err: unknown): LLMError => {
+  if (err instanceof LLMError) return err;
+  const message = isRecord(err) && typeof err.message === 'string' && err.message ? err.message : String(err);
+
+  // DOMException is not an Error subclass everywhere, so the name is checked on any object
+  if (isRecord(err) && err.name === 'AbortError') return new CancelledError('The request was cancelled.');
+  if (err instanceof SyntaxError) return new MalformedJSONError(message, '');
+  if (err instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new NetworkError(`Could not reach the model endpoint: ${message}`);
+  }
+
+  const status = statusOf(err);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new QuotaError(message, status);
+  if (/API key not valid|API_KEY_INVALID|invalid api key|incorrect api key/i.test(message) || status === 401) {
+    return new MissingKeyError(message, status);
+  }
+  if (status !== undefined && status >= 500) return new ServerError(message, status);
+  if (/SAFETY|blocked|content_filter/i.test(message)) return new SafetyBlockError(message, status);
+  return new LLMError(message, status);
+};
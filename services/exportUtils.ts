@@ -0,0 +1,57 @@
+// Triggers a browser download of in-memory content
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking straight away can cancel the download in some browsers before it has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+};
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV; the header is the union of all row keys in first-seen order
+export const toCsv = (rows: Record<string, unknown>[]): string => {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return [
+    columns.map(csvCell).join(','),
+    ...rows.map(row => columns.map(col => csvCell(row[col])).join(','))
+  ].join('\r\n');
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Finds the list of records to show as a table: the value itself when it is an
+ * array of objects, or the only array-of-objects property of a wrapper object.
+ */
+export const findTabularRows = (value: unknown): Record<string, unknown>[] | null => {
+  if (Array.isArray(value) && value.length > 0 && value.every(isPlainObject)) return value;
+  if (isPlainObject(value)) {
+    const tables = Object.values(value).filter(v => Array.isArray(v) && v.length > 0 && v.every(isPlainObject));
+    if (tables.length === 1) return tables[0] as Record<string, unknown>[];
+  }
+  return null;
+};
+
+// Tabular data as-is, anything else flattened to path/value rows
+export const jsonToCsv = (value: unknown): string => {
+  const rows = findTabularRows(value);
+  if (rows) return toCsv(rows);
+
+  const flat: Record<string, unknown>[] = [];
+  const walk = (v: unknown, path: string) => {
+    if (Array.isArray(v)) v.forEach((item, i) => walk(item, `${path}[${i}]`));
+    else if (isPlainObject(v)) Object.entries(v).forEach(([k, child]) => walk(child, path ? `${path}.${k}` : k));
+    else flat.push({ path, value: v });
+  };
+  walk(value, '');
+  return toCsv(flat);
+};
@@ -1,116 +1,655 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { MindMapData } from "../types";
-
-// Helper to initialize client, preferring user key but falling back to environment
-const getClient = (userKey?: string | null) => {
-  const apiKey = userKey || process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please provide it in settings or environment.");
+import {
+  AgentConfig,
+  ChatMessage,
+  ChunkProgress,
+  ClauseComparison,
+  DocumentPassage,
+  GenerationSettings,
+  JsonSchema,
+  MindMapData,
+  MindMapLink,
+  MindMapNode,
+  ModelComparisonEntry,
+  ModelTarget,
+  JudgeVerdict,
+  ProviderSettings,
+  UsageFeature,
+  UsageRecord
+} from "../types";
+import { generateText } from "./llmProvider";
+import { chunkText, TextChunk } from "./chunking";
+import { splitParagraphs } from "./documentDiff";
+import { MalformedJSONError } from "./errors";
+import { validateJson } from "./jsonSchema";
+import { addUsage, EMPTY_USAGE } from "./usageTracker";
+import { locateSnippet, mergeSnippets } from "./sourceSnippets";
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  onText?: (textSoFar: string) => void; // Streams partial output as it arrives
+  onProgress?: (progress: ChunkProgress) => void; // Reports map-reduce progress over chunks
+  bypassCache?: boolean; // Skip cached responses for this run
+  onUsage?: (record: UsageRecord) => void; // Called once per model call with its tokens and cost
+}
+
+// Per-call input budgets; longer inputs are split into chunks and the results merged
+const MIND_MAP_CHUNK_CHARS = 10000;
+const COMPARE_CHUNK_CHARS = 12000;
+const SMART_NOTE_CHUNK_CHARS = 30000;
+const CHUNK_OVERLAP = 500;
+
+const MIND_MAP_SCHEMA = {
+  type: 'object',
+  properties: {
+    nodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          group: { type: 'integer' },
+          description: { type: 'string' },
+          quotes: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['id']
+      }
+    },
+    links: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          source: { type: 'string' },
+          target: { type: 'string' },
+          value: { type: 'number' },
+          label: { type: 'string' },
+          quotes: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['source', 'target']
+      }
+    }
+  },
+  required: ['nodes', 'links']
+};
+
+// Request fields shared by every model call of one run
+const callOptions = (options: RunOptions, feature: UsageFeature) => ({
+  signal: options.signal,
+  bypassCache: options.bypassCache,
+  onUsage: options.onUsage,
+  feature,
+});
+
+const parseJSON = <T>(text: string, what: string): T => {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new MalformedJSONError(`The model returned invalid JSON for the ${what}.`, text);
   }
-  return new GoogleGenAI({ apiKey });
+};
+
+const mapChunks = async <T>(
+  chunks: TextChunk[],
+  options: RunOptions,
+  fn: (chunk: TextChunk) => Promise<T>
+): Promise<T[]> => {
+  const results: T[] = [];
+  options.onProgress?.({ completed: 0, total: chunks.length });
+  for (const chunk of chunks) {
+    results.push(await fn(chunk));
+    options.onProgress?.({ completed: results.length, total: chunks.length });
+  }
+  return results;
+};
+
+const normalizeId = (id: string) => id.trim().toLowerCase();
+
+// The model's answer for one chunk: evidence as verbatim quotes rather than offsets, which it gets wrong
+interface RawMindMap {
+  nodes?: (Omit<MindMapNode, 'sources'> & { quotes?: string[] })[];
+  links?: (Omit<MindMapLink, 'sources'> & { quotes?: string[] })[];
+}
+
+// Quotes that cannot be found in the chunk are dropped, so every snippet points at real input text
+const locateQuotes = (chunk: TextChunk, quotes?: string[]) =>
+  mergeSnippets((quotes || []).flatMap(quote => locateSnippet(chunk.text, quote, chunk.start) || []));
+
+const withSnippets = (raw: RawMindMap, chunk: TextChunk): MindMapData => ({
+  nodes: (raw.nodes || []).map(({ quotes, ...node }) => ({ ...node, sources: locateQuotes(chunk, quotes) })),
+  links: (raw.links || []).map(({ quotes, ...link }) => ({ ...link, sources: locateQuotes(chunk, quotes) })),
+});
+
+// Unions per-chunk graphs: nodes are matched case-insensitively, links with the same
+// source and target are summed, and chunk-local group numbers are remapped onto global ones.
+// The first description or label wins; evidence from every chunk is pooled.
+const mergeMindMaps = (graphs: MindMapData[]): MindMapData => {
+  const nodes = new Map<string, MindMapNode>();
+  const links = new Map<string, MindMapLink>();
+  let nextGroup = 1;
+
+  for (const graph of graphs) {
+    const groupMap = new Map<number, number>();
+    for (const node of graph.nodes || []) {
+      const existing = nodes.get(normalizeId(node.id));
+      if (existing && node.group !== undefined && existing.group !== undefined && !groupMap.has(node.group)) {
+        groupMap.set(node.group, existing.group);
+      }
+    }
+    const globalGroup = (group?: number) => {
+      if (group === undefined) return undefined;
+      if (!groupMap.has(group)) groupMap.set(group, nextGroup++);
+      return groupMap.get(group);
+    };
+
+    for (const node of graph.nodes || []) {
+      const key = normalizeId(node.id);
+      if (!key) continue;
+      const existing = nodes.get(key);
+      if (!existing) {
+        nodes.set(key, { ...node, id: node.id.trim(), group: globalGroup(node.group) });
+        continue;
+      }
+      existing.description ||= node.description;
+      existing.sources = mergeSnippets(existing.sources, node.sources);
+    }
+    for (const link of graph.links || []) {
+      // Models occasionally reference nodes they did not list
+      for (const end of [link.source, link.target]) {
+        if (!nodes.has(normalizeId(end))) nodes.set(normalizeId(end), { id: end.trim(), group: globalGroup(undefined) });
+      }
+      const source = nodes.get(normalizeId(link.source))!.id;
+      const target = nodes.get(normalizeId(link.target))!.id;
+      if (source === target) continue;
+      // Directed, so A→B and B→A keep their own labels and evidence
+      const key = `${source}\u0000${target}`;
+      const existing = links.get(key);
+      if (existing) {
+        existing.value += link.value || 1;
+        existing.label ||= link.label;
+        existing.sources = mergeSnippets(existing.sources, link.sources);
+      } else {
+        links.set(key, { ...link, source, target, value: link.value || 1 });
+      }
+    }
+  }
+
+  return { nodes: [...nodes.values()], links: [...links.values()] };
 };
 
 export const transformToMindMapFormat = async (
   input: string, 
-  userKey: string | null
+  settings: ProviderSettings,
+  options: RunOptions = {}
 ): Promise<MindMapData> => {
-  const ai = getClient(userKey);
+  const chunks = chunkText(input, { maxChars: MIND_MAP_CHUNK_CHARS, overlap: CHUNK_OVERLAP });
 
-  const prompt = `
+  const graphs = await mapChunks(chunks, options, async (chunk) => {
+    const prompt = `
     Analyze the following text and extract key entities and relationships to form a network graph/mind map.
-    Return ONLY a JSON object with 'nodes' (array of {id, group}) and 'links' (array of {source, target, value}).
+    Return ONLY a JSON object with 'nodes' (array of {id, group, description, quotes}) and 'links' (array of {source, target, value, label, quotes}).
     Groups should be integers clustering related topics.
-    Text: ${input.substring(0, 10000)}
+    Each node's description says in one sentence what the entity is and why it matters in the text.
+    Each link's label names the relationship in a few words, reading from source to target (e.g. "is a subfield of").
+    'quotes' are 1-3 short passages copied character for character from the text that support the node or link.${chunks.length > 1 ? `
+    This is part ${chunk.index + 1} of ${chunks.length} of a longer text; use consistent, canonical entity names.` : ''}
+    Text: ${chunk.text}
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-    config: {
-      responseMimeType: 'application/json',
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          nodes: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.STRING },
-                group: { type: Type.INTEGER },
-              }
-            }
-          },
-          links: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                source: { type: Type.STRING },
-                target: { type: Type.STRING },
-                value: { type: Type.NUMBER }
-              }
-            }
-          }
-        }
-      }
-    }
+    const text = await generateText(settings.defaultModel, settings, {
+      prompt,
+      jsonSchema: MIND_MAP_SCHEMA,
+      ...callOptions(options, 'mindmap'),
+    });
+
+    if (!text) throw new MalformedJSONError("No response from AI", text);
+    return withSnippets(parseJSON<RawMindMap>(text, 'mind map'), chunk);
   });
 
-  const text = response.text;
-  if (!text) throw new Error("No response from AI");
-  return JSON.parse(text);
+  return mergeMindMaps(graphs);
 };
 
+export const agentGenerationSettings = (agent: AgentConfig): GenerationSettings => ({
+  maxTokens: agent.maxTokens,
+  temperature: agent.temperature,
+  systemInstruction: agent.systemInstruction,
+  topP: agent.topP,
+  topK: agent.topK,
+  stopSequences: agent.stopSequences,
+  seed: agent.seed,
+  thinkingBudget: agent.thinkingBudget,
+});
+
 export const runGeminiAgent = async (
   prompt: string,
-  modelId: string,
-  maxTokens: number,
+  target: ModelTarget,
+  generation: GenerationSettings,
   context: string,
-  userKey: string | null
+  settings: ProviderSettings,
+  options: RunOptions = {}
 ): Promise<string> => {
-  const ai = getClient(userKey);
+  const text = await generateText(target, settings, {
+    ...generation,
+    prompt: `Context:\n${context}\n\nTask:\n${prompt}`,
+    ...callOptions(options, 'agents'),
+    onText: options.onText,
+  });
 
-  // Handle "Thinking" model alias manually if needed, or use supported model
-  let actualModel = modelId;
-  let thinkingBudget = 0;
+  return text || "No output generated.";
+};
+
+export interface StructuredResult {
+  data: unknown;
+  raw: string;
+  errors: string[];      // Remaining validation errors; empty when the output is valid
+  repairedFrom?: string[]; // Errors of the first attempt when an automatic repair was needed
+}
 
-  if (modelId === 'gemini-2.5-flash-thinking') {
-    actualModel = 'gemini-2.5-flash'; // Flash supports thinking
-    thinkingBudget = 1024;
+const tryParse = (raw: string): { data?: unknown; errors: string[] } => {
+  try {
+    return { data: JSON.parse(raw), errors: [] };
+  } catch (err: any) {
+    return { errors: [`Invalid JSON: ${err.message}`] };
   }
+};
 
-  const response = await ai.models.generateContent({
-    model: actualModel,
-    contents: `Context:\n${context}\n\nTask:\n${prompt}`,
-    config: {
-      maxOutputTokens: maxTokens,
-      thinkingConfig: thinkingBudget > 0 ? { thinkingBudget } : undefined,
+/**
+ * Runs an agent in JSON mode: the schema is sent as the response format, the output
+ * is validated locally and, if invalid, the model gets one chance to repair it.
+ */
+export const runStructuredAgent = async (
+  prompt: string,
+  target: ModelTarget,
+  generation: GenerationSettings,
+  context: string,
+  schema: JsonSchema,
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<StructuredResult> => {
+  const check = (text: string) => {
+    const parsed = tryParse(text);
+    return { ...parsed, errors: parsed.errors.length ? parsed.errors : validateJson(parsed.data, schema) };
+  };
+  // An invalid response must not be cached, or every rerun would start from it again
+  const isValid = (text: string) => check(text).errors.length === 0;
+
+  const raw = await generateText(target, settings, {
+    ...generation,
+    prompt: `Context:\n${context}\n\nTask:\n${prompt}\n\nRespond with JSON only, matching this JSON Schema:\n${JSON.stringify(schema)}`,
+    jsonSchema: schema,
+    ...callOptions(options, 'agents'),
+    onText: options.onText,
+    cacheIf: isValid,
+  });
+
+  const first = check(raw);
+  const firstErrors = first.errors;
+  if (firstErrors.length === 0) return { data: first.data, raw, errors: [] };
+
+  const repairedRaw = await generateText(target, settings, {
+    ...generation,
+    prompt: `The following JSON output does not satisfy the required JSON Schema.\n\nSchema:\n${JSON.stringify(schema)}\n\nOutput:\n${raw}\n\nValidation errors:\n${firstErrors.join('\n')}\n\nReturn only the corrected JSON, keeping all valid content.`,
+    jsonSchema: schema,
+    ...callOptions(options, 'agents'),
+    bypassCache: true,
+    cacheIf: isValid,
+  });
+  const repaired = check(repairedRaw);
+  return { data: repaired.data ?? first.data, raw: repairedRaw, errors: repaired.errors, repairedFrom: firstErrors };
+};
+
+export interface ComparisonOptions extends RunOptions {
+  onEntry?: (index: number, entry: ModelComparisonEntry) => void; // Streams each model's progress
+}
+
+/**
+ * Sends the same prompt and context to every target at once. A failing model is reported
+ * in its entry rather than failing the comparison; only a user stop rejects.
+ */
+export const runModelComparison = async (
+  prompt: string,
+  targets: ModelTarget[],
+  generation: GenerationSettings,
+  context: string,
+  schema: JsonSchema | undefined,
+  settings: ProviderSettings,
+  options: ComparisonOptions = {}
+): Promise<ModelComparisonEntry[]> =>
+  Promise.all(targets.map(async (target, index) => {
+    let entry: ModelComparisonEntry = { target, status: 'running', output: '', usage: EMPTY_USAGE };
+    const update = (patch: Partial<ModelComparisonEntry>) => {
+      entry = { ...entry, ...patch };
+      options.onEntry?.(index, entry);
+    };
+    update({});
+
+    const started = Date.now();
+    const runOptions: RunOptions = {
+      signal: options.signal,
+      bypassCache: options.bypassCache,
+      onText: (output) => update({ output }),
+      onUsage: (record) => {
+        options.onUsage?.(record);
+        update({ usage: addUsage(entry.usage, record) });
+      },
+    };
+    try {
+      const output = schema
+        ? (await runStructuredAgent(prompt, target, generation, context, schema, settings, runOptions)).raw
+        : await runGeminiAgent(prompt, target, generation, context, settings, runOptions);
+      update({ status: 'done', output, latencyMs: Date.now() - started });
+    } catch (err: any) {
+      if (options.signal?.aborted) throw err;
+      update({ status: 'failed', error: err.message, latencyMs: Date.now() - started });
     }
+    return entry;
+  }));
+
+const JUDGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          response: { type: 'integer', minimum: 1 },
+          score: { type: 'number', minimum: 0, maximum: 10 },
+          rationale: { type: 'string' }
+        },
+        required: ['response', 'score', 'rationale']
+      }
+    },
+    winner: { type: 'integer', minimum: 1 },
+    summary: { type: 'string' }
+  },
+  required: ['scores', 'summary']
+};
+
+const DEFAULT_RUBRIC = 'Accuracy with respect to the context, completeness, clarity and how well the task instructions are followed.';
+
+// Scores successful comparison outputs; responses are numbered, not named, so the judge cannot favour a model
+export const judgeModelOutputs = async (
+  prompt: string,
+  context: string,
+  entries: ModelComparisonEntry[],
+  rubric: string | undefined,
+  judge: ModelTarget,
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<JudgeVerdict> => {
+  const candidates = entries.filter(e => e.status === 'done');
+  const responses = candidates.map((e, i) => `### Response ${i + 1}\n${e.output}`).join('\n\n');
+
+  const raw = await generateText(judge, settings, {
+    prompt: `You are an impartial judge comparing ${candidates.length} responses to the same task.\n\nContext:\n${context}\n\nTask:\n${prompt}\n\nRubric:\n${rubric?.trim() || DEFAULT_RUBRIC}\n\n${responses}\n\nScore every response from 0 to 10 against the rubric with a short rationale, name the best response as "winner" and summarize the comparison.`,
+    jsonSchema: JUDGE_SCHEMA,
+    temperature: 0,
+    ...callOptions(options, 'agents'),
   });
 
-  return response.text || "No output generated.";
+  const data = parseJSON<{ scores: { response: number; score: number; rationale: string }[]; winner?: number; summary: string }>(raw, 'judge verdict');
+  const errors = validateJson(data, JUDGE_SCHEMA);
+  if (errors.length > 0) throw new MalformedJSONError(`The judge verdict does not match the expected format: ${errors.join('; ')}`, raw);
+
+  const targetOf = (response: number) => candidates[response - 1]?.target;
+  return {
+    scores: data.scores.filter(s => targetOf(s.response)).map(s => ({ target: targetOf(s.response)!, score: s.score, rationale: s.rationale })),
+    winner: data.winner !== undefined ? targetOf(data.winner) : undefined,
+    summary: data.summary,
+  };
+};
+
+// Condenses a long document chunk by chunk so that two documents fit into one comparison
+const condenseDocument = async (
+  label: string,
+  chunks: TextChunk[],
+  settings: ProviderSettings,
+  options: RunOptions,
+  onChunkDone: () => void
+): Promise<string> => {
+  if (chunks.length === 1) return chunks[0].text;
+
+  const notes = await mapChunks(chunks, {}, async (chunk) => {
+    const note = await generateText(settings.defaultModel, settings, {
+      prompt: `Condense part ${chunk.index + 1} of ${chunks.length} of ${label} into detailed notes. Preserve every claim, number, date, name, obligation and section heading so it can later be compared against another document.\n\n${chunk.text}`,
+      ...callOptions(options, 'comparison'),
+    });
+    onChunkDone();
+    return note;
+  });
+  return notes.map((note, i) => `[Part ${i + 1}/${chunks.length}]\n${note}`).join('\n\n');
+};
+
+// Condenses whichever of the two documents is too long and reports progress over all calls
+const condenseForComparison = async (
+  doc1: string,
+  doc2: string,
+  settings: ProviderSettings,
+  options: RunOptions
+) => {
+  const chunks1 = chunkText(doc1, { maxChars: COMPARE_CHUNK_CHARS, overlap: CHUNK_OVERLAP });
+  const chunks2 = chunkText(doc2, { maxChars: COMPARE_CHUNK_CHARS, overlap: CHUNK_OVERLAP });
+  // Every chunk of a split document costs one condensing call, plus the final comparison
+  const total = [chunks1, chunks2].reduce((n, c) => n + (c.length > 1 ? c.length : 0), 0) + 1;
+  let completed = 0;
+  const tick = () => options.onProgress?.({ completed: ++completed, total });
+  options.onProgress?.({ completed, total });
+
+  const condensed1 = await condenseDocument('Doc 1', chunks1, settings, options, tick);
+  const condensed2 = await condenseDocument('Doc 2', chunks2, settings, options, tick);
+  return { condensed1, condensed2, tick };
 };
 
 export const compareDocuments = async (
   doc1: string,
   doc2: string,
-  userKey: string | null
+  settings: ProviderSettings,
+  options: RunOptions = {}
 ): Promise<string> => {
-  const ai = getClient(userKey);
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: `Compare the following two documents. Highlight similarities, differences, and key insights.\n\nDoc 1:\n${doc1.substring(0, 5000)}\n\nDoc 2:\n${doc2.substring(0, 5000)}`,
+  const { condensed1, condensed2, tick } = await condenseForComparison(doc1, doc2, settings, options);
+
+  const text = await generateText(settings.defaultModel, settings, {
+    prompt: `Compare the following two documents. Highlight similarities, differences, and key insights.\n\nDoc 1:\n${condensed1}\n\nDoc 2:\n${condensed2}`,
+    ...callOptions(options, 'comparison'),
+    onText: options.onText,
   });
-  return response.text || "Analysis failed.";
+  tick();
+  return text || "Analysis failed.";
+};
+
+const CLAUSE_COMPARISON_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          section: { type: 'string' },
+          status: { type: 'string', enum: ['unchanged', 'modified', 'added', 'removed'] },
+          severity: { type: 'string', enum: ['none', 'low', 'medium', 'high'] },
+          explanation: { type: 'string' },
+          beforeParagraph: { type: 'integer', minimum: 1 },
+          afterParagraph: { type: 'integer', minimum: 1 }
+        },
+        required: ['section', 'status', 'severity', 'explanation']
+      }
+    }
+  },
+  required: ['sections']
+};
+
+type RawClause = Omit<ClauseComparison, 'beforeExcerpt' | 'afterExcerpt'> & { beforeParagraph?: number; afterParagraph?: number };
+
+// Paragraph openings are enough for the model to point at a section of a document it only sees condensed
+const PARAGRAPH_OPENING_CHARS = 80;
+
+// A short document is sent whole with numbered paragraphs; a condensed one as its notes plus the numbered openings
+const numberedDocument = (label: string, paragraphs: string[], condensed: string, wasCondensed: boolean) => {
+  if (!wasCondensed) return `${label}:\n${paragraphs.map((p, i) => `[${i + 1}] ${p}`).join('\n\n')}`;
+  const openings = paragraphs.map((p, i) => `[${i + 1}] ${p.replace(/\s+/g, ' ').slice(0, PARAGRAPH_OPENING_CHARS)}`).join('\n');
+  return `${label} (condensed notes):\n${condensed}\n\n${label} paragraph openings:\n${openings}`;
+};
+
+// The first sentence of the referenced paragraph, taken from the original so the diff view can find it
+const excerptOf = (paragraphs: string[], number?: number) => {
+  const paragraph = number !== undefined ? paragraphs[number - 1] : undefined;
+  return paragraph && (paragraph.match(/^[\s\S]*?[.!?](?=\s|$)/)?.[0] || paragraph);
+};
+
+/**
+ * Aligns the sections or clauses of two documents and rates each pair, for contracts and
+ * policy revisions where a prose comparison is too coarse. The model names each section by
+ * paragraph number, so rows can be located even when a long document was only seen condensed.
+ */
+export const compareDocumentClauses = async (
+  doc1: string,
+  doc2: string,
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<ClauseComparison[]> => {
+  const { condensed1, condensed2, tick } = await condenseForComparison(doc1, doc2, settings, options);
+  const paragraphs1 = splitParagraphs(doc1);
+  const paragraphs2 = splitParagraphs(doc2);
+
+  const raw = await generateText(settings.defaultModel, settings, {
+    prompt: `Align the sections or clauses of Doc 1 (the earlier version) with those of Doc 2 (the later version), in document order. For every pair give:\n- section: its heading or a short title\n- status: unchanged, modified, added (only in Doc 2) or removed (only in Doc 1)\n- severity: how much the change matters to a reader's rights, obligations or risk (none for unchanged sections)\n- explanation: one or two sentences on what changed\n- beforeParagraph / afterParagraph: the [number] of the paragraph where the section starts in Doc 1 / Doc 2, omitted when the section is absent there\n\n${numberedDocument('Doc 1', paragraphs1, condensed1, condensed1 !== doc1)}\n\n${numberedDocument('Doc 2', paragraphs2, condensed2, condensed2 !== doc2)}`,
+    jsonSchema: CLAUSE_COMPARISON_SCHEMA,
+    temperature: 0,
+    ...callOptions(options, 'comparison'),
+  });
+  tick();
+
+  const data = parseJSON<{ sections: RawClause[] }>(raw, 'clause comparison');
+  const errors = validateJson(data, CLAUSE_COMPARISON_SCHEMA);
+  if (errors.length > 0) throw new MalformedJSONError(`The clause comparison does not match the expected format: ${errors.join('; ')}`, raw);
+  return data.sections.map(({ beforeParagraph, afterParagraph, ...clause }) => ({
+    ...clause,
+    beforeExcerpt: excerptOf(paragraphs1, beforeParagraph),
+    afterExcerpt: excerptOf(paragraphs2, afterParagraph),
+  }));
+};
+
+// Earlier turns let follow-up questions refer back; older ones are dropped to bound the prompt
+const CHAT_HISTORY_TURNS = 6;
+
+/**
+ * Answers from the retrieved passages only. Citation `[n]` in the answer refers to
+ * `passages[n - 1]`, which the UI resolves to the source span.
+ */
+export const answerDocumentQuestion = async (
+  question: string,
+  passages: DocumentPassage[],
+  history: ChatMessage[],
+  settings: ProviderSettings,
+  options: RunOptions = {}
+): Promise<string> => {
+  const sources = passages.map((p, i) => `[${i + 1}] (from "${p.documentName}")\n${p.text}`).join('\n\n');
+  const conversation = history.filter(m => !m.error).slice(-CHAT_HISTORY_TURNS)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}`).join('\n\n');
+
+  return generateText(settings.defaultModel, settings, {
+    prompt: `Answer the question using only the numbered passages below; do not use outside knowledge. After every claim, cite the passage that supports it by its number in square brackets, e.g. [2], with separate brackets for several sources, e.g. [1][3]. If the passages do not contain the answer, say so.${conversation ? `\n\nConversation so far:\n${conversation}` : ''}\n\nPassages:\n${sources}\n\nQuestion: ${question}`,
+    ...callOptions(options, 'chat'),
+    onText: options.onText,
+  });
+};
+
+const SMART_NOTE_FACTS_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    entities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          entity: { type: 'string' },
+          category: { type: 'string' },
+          description: { type: 'string' }
+        },
+        required: ['entity', 'category', 'description']
+      }
+    }
+  },
+  required: ['summary', 'entities']
+};
+
+const SMART_NOTE_REDUCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    questions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['summary', 'questions']
+};
+
+interface ChunkFacts {
+  summary: string;
+  entities: { entity: string; category: string; description: string }[];
+}
+
+const escapeTableCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+// Map-reduce variant of processSmartNote for documents that do not fit in one call
+const processLongSmartNote = async (
+  chunks: TextChunk[],
+  settings: ProviderSettings,
+  options: RunOptions
+): Promise<string> => {
+  const formatted: string[] = [];
+  const facts = await mapChunks(chunks, {}, async (chunk) => {
+    const section = await generateText(settings.defaultModel, settings, {
+      prompt: `You are an expert editor. This is part ${chunk.index + 1} of ${chunks.length} of a long document. Keep ALL the original text, but reformat it into clean, professional Markdown with appropriate headers (##, ###), lists, bold text for emphasis, and code blocks where necessary. Output only the reformatted text.\n\n${chunk.text}`,
+      ...callOptions(options, 'smartnote'),
+      onText: options.onText && ((partial) => options.onText!([...formatted, partial].join('\n\n'))),
+    });
+    formatted.push(section);
+
+    const json = await generateText(settings.defaultModel, settings, {
+      prompt: `Summarize this part (${chunk.index + 1} of ${chunks.length}) of a document and extract up to 10 key entities or keywords with a category and a short context description.\n\n${chunk.text}`,
+      jsonSchema: SMART_NOTE_FACTS_SCHEMA,
+      ...callOptions(options, 'smartnote'),
+    });
+    options.onProgress?.({ completed: chunk.index + 1, total: chunks.length + 1 });
+    return parseJSON<ChunkFacts>(json, 'note summary');
+  });
+
+  const reduced = parseJSON<{ summary: string; questions: string[] }>(await generateText(settings.defaultModel, settings, {
+    prompt: `Below are summaries of consecutive parts of one document. Write a comprehensive executive summary of the whole document (Markdown allowed), and 20 comprehensive questions that test understanding of the whole document.\n\n${facts.map((f, i) => `Part ${i + 1}: ${f.summary}`).join('\n\n')}`,
+    jsonSchema: SMART_NOTE_REDUCE_SCHEMA,
+    ...callOptions(options, 'smartnote'),
+  }), 'executive summary');
+  options.onProgress?.({ completed: chunks.length + 1, total: chunks.length + 1 });
+
+  // Entities found in several parts are listed once, keeping the first description
+  const entities = new Map<string, ChunkFacts['entities'][number]>();
+  for (const e of facts.flatMap(f => f.entities)) {
+    if (!entities.has(normalizeId(e.entity))) entities.set(normalizeId(e.entity), e);
+  }
+  const table = [
+    '| Entity/Keyword | Category | Context/Description |',
+    '| --- | --- | --- |',
+    ...[...entities.values()].slice(0, 40).map(e => `| ${escapeTableCell(e.entity)} | ${escapeTableCell(e.category)} | ${escapeTableCell(e.description)} |`)
+  ].join('\n');
+
+  return [
+    `# Executive Summary\n\n${reduced.summary}`,
+    ...formatted,
+    `# Key Entities Analysis\n\n${table}`,
+    `# Comprehensive Questions\n\n${reduced.questions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
+  ].join('\n\n');
 };
 
 export const processSmartNote = async (
   text: string,
-  userKey: string | null
+  settings: ProviderSettings,
+  options: RunOptions = {}
 ): Promise<string> => {
-  const ai = getClient(userKey);
-  
+  const chunks = chunkText(text, { maxChars: SMART_NOTE_CHUNK_CHARS });
+  if (chunks.length > 1) return processLongSmartNote(chunks, settings, options);
+  options.onProgress?.({ completed: 0, total: 1 });
+
   const prompt = `
     You are an expert editor and analyst. Process the following document.
     
@@ -123,13 +662,15 @@ export const processSmartNote = async (
     4. **AI Questions**: Add a section at the very end titled "# Comprehensive Questions". Generate 20 comprehensive questions based on the document content that test understanding.
 
     Document Content:
-    ${text.substring(0, 50000)}
+    ${text}
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
+  const output = await generateText(settings.defaultModel, settings, {
+    prompt,
+    ...callOptions(options, 'smartnote'),
+    onText: options.onText,
   });
+  options.onProgress?.({ completed: 1, total: 1 });
 
-  return response.text || "Processing failed.";
+  return output || "Processing failed.";
 };
\ No newline at end of file
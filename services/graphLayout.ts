@@ -0,0 +1,180 @@
+import * as d3 from 'd3';
+import { MindMapData, MindMapLayout } from "../types";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface StaticLayout {
+  positions: Map<string, Point>;
+  treeEdges: Set<string>; // Links that belong to the spanning tree, keyed by edgeKey
+}
+
+const MARGIN = 40;
+const VIRTUAL_ROOT = '\u0000root';
+
+// Undirected, so a link counts for the tree whichever way round the model returned it
+export const edgeKey = (a: string, b: string) => a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+
+const adjacency = (data: MindMapData) => {
+  const neighbours = new Map(data.nodes.map(n => [n.id, [] as string[]]));
+  data.links.forEach(({ source, target }) => {
+    if (!neighbours.has(source) || !neighbours.has(target) || source === target) return;
+    neighbours.get(source)!.push(target);
+    neighbours.get(target)!.push(source);
+  });
+  return neighbours;
+};
+
+const bfs = (start: string, neighbours: Map<string, string[]>) => {
+  const depth = new Map([[start, 0]]);
+  const parent = new Map<string, string>();
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    for (const next of neighbours.get(queue[i]) || []) {
+      if (depth.has(next)) continue;
+      depth.set(next, depth.get(queue[i])! + 1);
+      parent.set(next, queue[i]);
+      queue.push(next);
+    }
+  }
+  return { depth, parent, order: queue };
+};
+
+/**
+ * The most central node: highest closeness (reach over total distance, which favours the
+ * largest component), ties broken by degree. Null for an empty map.
+ */
+export const pickRoot = (data: MindMapData): string | null => {
+  const neighbours = adjacency(data);
+  let best: { id: string; closeness: number; degree: number } | null = null;
+  for (const id of neighbours.keys()) {
+    const { depth } = bfs(id, neighbours);
+    const total = [...depth.values()].reduce((a, b) => a + b, 0);
+    const closeness = total === 0 ? 0 : (depth.size - 1) ** 2 / total;
+    const degree = neighbours.get(id)!.length;
+    if (!best || closeness > best.closeness || (closeness === best.closeness && degree > best.degree)) best = { id, closeness, degree };
+  }
+  return best?.id ?? null;
+};
+
+export interface SpanningForest {
+  roots: string[]; // The chosen root first, then the central node of every other component
+  children: Map<string, string[]>;
+  treeEdges: Set<string>;
+}
+
+// Breadth-first spanning tree per connected component
+export const spanningForest = (data: MindMapData, root: string): SpanningForest => {
+  const neighbours = adjacency(data);
+  const children = new Map(data.nodes.map(n => [n.id, [] as string[]]));
+  const treeEdges = new Set<string>();
+  const roots: string[] = [];
+  const seen = new Set<string>();
+
+  for (const start of [root, ...data.nodes.map(n => n.id)]) {
+    if (seen.has(start) || !children.has(start)) continue;
+    const component = bfs(start, neighbours);
+    // Re-root the component at its most central node, except for the chosen root's own
+    const componentRoot = start === root ? start : pickRoot({
+      nodes: component.order.map(id => ({ id })),
+      links: data.links.filter(l => component.depth.has(l.source) && component.depth.has(l.target)),
+    }) || start;
+    const { parent, order } = bfs(componentRoot, neighbours);
+    order.forEach(id => {
+      seen.add(id);
+      const p = parent.get(id);
+      if (p === undefined) return;
+      children.get(p)!.push(id);
+      treeEdges.add(edgeKey(p, id));
+    });
+    roots.push(componentRoot);
+  }
+  return { roots, children, treeEdges };
+};
+
+interface TreeDatum {
+  id: string;
+  children: TreeDatum[];
+}
+
+// Several components hang off a hidden root so they share one hierarchy
+const spanningTree = (data: MindMapData, root: string) => {
+  const { roots, children, treeEdges } = spanningForest(data, root);
+  const toDatum = (id: string): TreeDatum => ({ id, children: children.get(id)!.map(toDatum) });
+  const top = roots.length === 1 ? toDatum(roots[0]) : { id: VIRTUAL_ROOT, children: roots.map(toDatum) };
+  return { hierarchy: d3.hierarchy(top), treeEdges };
+};
+
+// Scales the points independently on each axis to fill the box inside the margin
+const fitToBox = (positions: Map<string, Point>, width: number, height: number) => {
+  const xs = [...positions.values()].map(p => p.x);
+  const ys = [...positions.values()].map(p => p.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const scale = (v: number, min: number, max: number, size: number) =>
+    max === min ? size / 2 : MARGIN + (v - min) / (max - min) * (size - 2 * MARGIN);
+  positions.forEach((p, id) => positions.set(id, { x: scale(p.x, minX, maxX, width), y: scale(p.y, minY, maxY, height) }));
+};
+
+const radialLayout = (data: MindMapData, root: string, width: number, height: number): StaticLayout => {
+  const { hierarchy, treeEdges } = spanningTree(data, root);
+  const radius = Math.max(Math.min(width, height) / 2 - MARGIN * 2, 50);
+  const tree = d3.tree<TreeDatum>().size([2 * Math.PI, radius]).separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(a.depth, 1));
+  const positions = new Map<string, Point>();
+  tree(hierarchy).each(node => {
+    if (node.data.id === VIRTUAL_ROOT) return;
+    const angle = (node.x ?? 0) - Math.PI / 2;
+    positions.set(node.data.id, { x: width / 2 + (node.y ?? 0) * Math.cos(angle), y: height / 2 + (node.y ?? 0) * Math.sin(angle) });
+  });
+  return { positions, treeEdges };
+};
+
+// Left-to-right tidy tree; labels sit to the right of each node, so keep room on that side
+const tidyTreeLayout = (data: MindMapData, root: string, width: number, height: number): StaticLayout => {
+  const { hierarchy, treeEdges } = spanningTree(data, root);
+  const positions = new Map<string, Point>();
+  d3.tree<TreeDatum>().nodeSize([1, 1])(hierarchy).each(node => {
+    if (node.data.id !== VIRTUAL_ROOT) positions.set(node.data.id, { x: node.y ?? 0, y: node.x ?? 0 });
+  });
+  fitToBox(positions, width - 120, height);
+  return { positions, treeEdges };
+};
+
+// One phyllotaxis disc per group, hubs in the middle, discs spread on a circle
+const clusterLayout = (data: MindMapData, width: number, height: number): StaticLayout => {
+  const neighbours = adjacency(data);
+  const groups = d3.group(data.nodes, n => n.group ?? 0);
+  const keys = [...groups.keys()].sort((a, b) => a - b);
+  const spacing = 28;
+  const discRadius = (count: number) => spacing * Math.sqrt(count) + spacing;
+  const largest = Math.max(...keys.map(k => discRadius(groups.get(k)!.length)), 0);
+  const ring = keys.length > 1 ? Math.max(Math.min(width, height) / 2 - largest - MARGIN / 2, largest) : 0;
+
+  const positions = new Map<string, Point>();
+  keys.forEach((key, g) => {
+    const angle = (2 * Math.PI * g) / keys.length - Math.PI / 2;
+    const cx = width / 2 + ring * Math.cos(angle);
+    const cy = height / 2 + ring * Math.sin(angle);
+    const members = [...groups.get(key)!].sort((a, b) => neighbours.get(b.id)!.length - neighbours.get(a.id)!.length);
+    members.forEach((node, i) => {
+      const r = spacing * Math.sqrt(i);
+      const theta = i * Math.PI * (3 - Math.sqrt(5)); // Golden angle
+      positions.set(node.id, { x: cx + r * Math.cos(theta), y: cy + r * Math.sin(theta) });
+    });
+  });
+  return { positions, treeEdges: new Set() };
+};
+
+// Target positions for every layout except force, which is simulated live by the view
+export const computeLayout = (
+  data: MindMapData,
+  layout: Exclude<MindMapLayout, 'force'>,
+  root: string,
+  width: number,
+  height: number
+): StaticLayout => {
+  if (layout === 'radial') return radialLayout(data, root, width, height);
+  if (layout === 'tree') return tidyTreeLayout(data, root, width, height);
+  return clusterLayout(data, width, height);
+};
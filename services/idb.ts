@@ -0,0 +1,26 @@
+// Small promise wrappers over IndexedDB, shared by the response cache, embeddings and workspace
+
+/**
+ * Returns a function that opens the database on first use and then reuses the connection.
+ * A failed open is forgotten, so the next call tries again.
+ */
+export const createDbOpener = (name: string, version: number, upgrade: (db: IDBDatabase) => void) => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  return () => {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(name, version);
+      req.onupgradeneeded = () => upgrade(req.result);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+    return dbPromise;
+  };
+};
+
+export const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
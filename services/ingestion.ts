@@ -0,0 +1,307 @@
+import { openZip } from "./zip";
+
+// In-browser text extraction for uploads. Structured formats are converted to Markdown so
+// headings, lists and tables survive into the prompts.
+
+export const INGEST_ACCEPT = '.txt,.md,.markdown,.csv,.tsv,.json,.yaml,.yml,.html,.htm,.xhtml,.pdf,.docx,.epub';
+
+export class IngestionError extends Error {
+  fileName: string;
+
+  constructor(fileName: string, message: string) {
+    super(`${fileName}: ${message}`);
+    this.name = 'IngestionError';
+    this.fileName = fileName;
+  }
+}
+
+export interface IngestedFile {
+  name: string;
+  text: string;
+}
+
+// pdf.js is large, so it is only fetched the first time a PDF is uploaded.
+// The worker has to be the same release as the pdfjs-dist dependency.
+const PDFJS_WORKER = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs';
+let pdfjs: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// A failed load is forgotten, so the next PDF tries again
+const loadPdfJs = () => pdfjs ||= import('pdfjs-dist').then(lib => {
+  lib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER;
+  return lib;
+}, err => {
+  pdfjs = null;
+  throw err;
+});
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+
+const markdownTable = (rows: string[][]): string => {
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(r => r.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => escapeCell(cells[i] || '')).join(' | ')} |`;
+  return [line(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(line)].join('\n');
+};
+
+// --- HTML ---
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+const tagOf = (node: Node) => node.nodeType === Node.ELEMENT_NODE ? (node as Element).localName.toLowerCase() : '';
+
+const inlineText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+  const tag = tagOf(node);
+  if (!tag || SKIPPED_TAGS.has(tag)) return '';
+  if (tag === 'br') return '\n';
+  if (tag === 'img') return (node as Element).getAttribute('alt') || '';
+  const inner = [...node.childNodes].map(inlineText).join('');
+  if (!inner.trim()) return inner;
+  if (tag === 'strong' || tag === 'b') return `**${inner.trim()}**`;
+  if (tag === 'em' || tag === 'i') return `*${inner.trim()}*`;
+  if (tag === 'code') return `\`${inner}\``;
+  const href = tag === 'a' ? (node as Element).getAttribute('href') : null;
+  if (href && /^https?:/i.test(href)) return `[${inner.trim()}](${href})`;
+  return inner;
+};
+
+const listToMarkdown = (list: Element, depth: number): string =>
+  [...list.children].filter(li => tagOf(li) === 'li').map((li, i) => {
+    const marker = tagOf(list) === 'ol' ? `${i + 1}.` : '-';
+    const text = [...li.childNodes].filter(n => tagOf(n) !== 'ul' && tagOf(n) !== 'ol').map(inlineText).join('').trim();
+    const nested = [...li.children].filter(n => tagOf(n) === 'ul' || tagOf(n) === 'ol').map(n => listToMarkdown(n, depth + 1));
+    return [`${'  '.repeat(depth)}${marker} ${text}`, ...nested].join('\n');
+  }).join('\n');
+
+const blocksOf = (parent: Node, out: string[]) => {
+  let inline = '';
+  const flush = () => {
+    if (inline.trim()) out.push(inline.trim());
+    inline = '';
+  };
+
+  for (const node of parent.childNodes) {
+    const tag = tagOf(node);
+    if (SKIPPED_TAGS.has(tag)) continue;
+    if (!BLOCK_TAGS.has(tag)) {
+      inline += inlineText(node);
+      continue;
+    }
+    flush();
+    const el = node as Element;
+    if (/^h[1-6]$/.test(tag)) out.push(`${'#'.repeat(Number(tag[1]))} ${inlineText(el).trim()}`);
+    else if (tag === 'ul' || tag === 'ol') out.push(listToMarkdown(el, 0));
+    else if (tag === 'table') out.push(markdownTable([...(el as HTMLTableElement).rows].map(row => [...row.cells].map(cell => inlineText(cell)))));
+    else if (tag === 'pre') out.push(`\`\`\`\n${el.textContent?.replace(/\n$/, '')}\n\`\`\``);
+    else if (tag === 'hr') out.push('---');
+    else if (tag === 'blockquote') {
+      const quoted: string[] = [];
+      blocksOf(el, quoted);
+      out.push(quoted.join('\n\n').split('\n').map(line => `> ${line}`).join('\n'));
+    } else blocksOf(el, out);
+  }
+  flush();
+};
+
+export const htmlToMarkdown = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const blocks: string[] = [];
+  blocksOf(doc.body, blocks);
+  return blocks.join('\n\n');
+};
+
+// --- CSV ---
+
+// RFC 4180 fields; the delimiter is whichever of comma, semicolon or tab the first line uses most
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') quoted = true;
+    else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+// --- DOCX ---
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const wordText = (el: Element) =>
+  [...el.getElementsByTagNameNS(W_NS, '*')].map(n =>
+    n.localName === 't' ? n.textContent || '' : n.localName === 'tab' ? '\t' : n.localName === 'br' ? '\n' : ''
+  ).join('');
+
+const wordParagraph = (p: Element): string => {
+  const text = wordText(p).trim();
+  if (!text) return '';
+  const props = [...p.children].find(c => c.localName === 'pPr');
+  const style = props?.getElementsByTagNameNS(W_NS, 'pStyle')[0]?.getAttributeNS(W_NS, 'val') || '';
+  const heading = /^title$/i.test(style) ? 1 : Number(style.match(/^heading\s*(\d)$/i)?.[1] || 0);
+  if (heading) return `${'#'.repeat(Math.min(heading, 6))} ${text}`;
+  const level = props?.getElementsByTagNameNS(W_NS, 'ilvl')[0]?.getAttributeNS(W_NS, 'val');
+  if (props?.getElementsByTagNameNS(W_NS, 'numPr').length) return `${'  '.repeat(Number(level) || 0)}- ${text}`;
+  return text;
+};
+
+// Content controls (w:sdt) wrap paragraphs, tables, rows or cells; their content counts as the parent's
+const wordChildren = (parent: Element): Element[] => [...parent.children].flatMap(el =>
+  el.localName === 'sdt' ? [...el.children].filter(c => c.localName === 'sdtContent').flatMap(wordChildren) : [el]);
+
+const docxToMarkdown = (xml: string): string => {
+  const body = new DOMParser().parseFromString(xml, 'application/xml').getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) throw new Error('word/document.xml has no body');
+  const blocks: string[] = [];
+  for (const el of wordChildren(body)) {
+    if (el.localName === 'p') blocks.push(wordParagraph(el));
+    else if (el.localName === 'tbl') {
+      blocks.push(markdownTable(wordChildren(el).filter(r => r.localName === 'tr').map(row =>
+        wordChildren(row).filter(c => c.localName === 'tc').map(wordText))));
+    }
+  }
+  // Consecutive list items stay together instead of becoming separate paragraphs
+  return blocks.filter(Boolean).join('\n\n').replace(/^( *- .*)\n\n(?= *- )/gm, '$1\n');
+};
+
+// --- EPUB ---
+
+const resolvePath = (base: string, href: string) => {
+  const parts = base.split('/').slice(0, -1);
+  for (const part of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+const epubToMarkdown = async (buffer: ArrayBuffer): Promise<string> => {
+  const zip = openZip(buffer);
+  const parse = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+  const container = await zip.readText('META-INF/container.xml');
+  const opfPath = container && parse(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opf = opfPath && await zip.readText(opfPath);
+  if (!opfPath || !opf) throw new Error('missing package document');
+
+  const pkg = parse(opf);
+  const hrefs = new Map([...pkg.getElementsByTagName('item')].map(item => [item.getAttribute('id'), item.getAttribute('href') || '']));
+  const chapters: string[] = [];
+  for (const ref of pkg.getElementsByTagName('itemref')) {
+    const href = hrefs.get(ref.getAttribute('idref'));
+    const html = href && await zip.readText(resolvePath(opfPath, href));
+    if (html) chapters.push(htmlToMarkdown(html));
+  }
+  return chapters.filter(Boolean).join('\n\n');
+};
+
+// --- PDF ---
+
+// Rebuilds lines from positioned text runs; larger fonts become headings, wide gaps paragraph breaks
+const pdfToMarkdown = async (buffer: ArrayBuffer): Promise<string> => {
+  const lib = await loadPdfJs();
+  const pdf = await lib.getDocument({ data: new Uint8Array(buffer) }).promise;
+  const pages: string[] = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n);
+    const { items } = await page.getTextContent();
+    const lines: { text: string; y: number; height: number }[] = [];
+    let current = { text: '', y: NaN, height: 0 };
+    for (const item of items) {
+      if (!('str' in item)) continue;
+      const y = item.transform[5];
+      if (current.text && Math.abs(y - current.y) > 2) {
+        lines.push(current);
+        current = { text: '', y, height: 0 };
+      }
+      current.text += item.str;
+      current.y = y;
+      current.height = Math.max(current.height, item.height || 0);
+      if (item.hasEOL) {
+        lines.push(current);
+        current = { text: '', y: NaN, height: 0 };
+      }
+    }
+    if (current.text) lines.push(current);
+
+    const textLines = lines.filter(l => l.text.trim());
+    const heights = textLines.map(l => l.height).sort((a, b) => a - b);
+    const body = heights[Math.floor(heights.length / 2)] || 0;
+    let out = '';
+    textLines.forEach((line, i) => {
+      const text = line.text.trim();
+      const isHeading = body > 0 && line.height >= body * 1.3 && text.length < 120;
+      const gap = i > 0 ? Math.abs(textLines[i - 1].y - line.y) : 0;
+      if (i > 0) out += isHeading || gap > Math.max(line.height, body) * 1.6 ? '\n\n' : '\n';
+      out += isHeading ? `## ${text}` : text;
+    });
+    pages.push(out);
+    page.cleanup();
+  }
+  await pdf.destroy();
+  return pages.filter(Boolean).join('\n\n');
+};
+
+// --- Entry points ---
+
+const extensionOf = (name: string) => name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] || '';
+
+export const extractText = async (file: File): Promise<string> => {
+  const ext = extensionOf(file.name);
+  try {
+    if (ext === 'pdf' || file.type === 'application/pdf') return await pdfToMarkdown(await file.arrayBuffer());
+    if (ext === 'docx') {
+      const xml = await openZip(await file.arrayBuffer()).readText('word/document.xml');
+      if (!xml) throw new Error('missing word/document.xml');
+      return docxToMarkdown(xml);
+    }
+    if (ext === 'epub') return await epubToMarkdown(await file.arrayBuffer());
+    if (['html', 'htm', 'xhtml'].includes(ext) || file.type === 'text/html') return htmlToMarkdown(await file.text());
+    if (ext === 'csv' || ext === 'tsv') return markdownTable(parseCsv(await file.text()));
+    if (ext === 'doc') throw new Error('legacy .doc files are not supported; save the file as .docx');
+    return await file.text();
+  } catch (err: any) {
+    throw new IngestionError(file.name, err?.message || String(err));
+  }
+};
+
+// Extracts every file; failures are collected so one bad file does not drop the rest
+export const ingestFiles = async (files: File[]): Promise<{ files: IngestedFile[]; errors: IngestionError[] }> => {
+  const ingested: IngestedFile[] = [];
+  const errors: IngestionError[] = [];
+  for (const file of files) {
+    try {
+      ingested.push({ name: file.name, text: await extractText(file) });
+    } catch (err: any) {
+      errors.push(err instanceof IngestionError ? err : new IngestionError(file.name, String(err)));
+    }
+  }
+  return { files: ingested, errors };
+};
+
+// Several files go into one input under a heading per file
+export const combineFiles = (files: IngestedFile[]): string =>
+  files.length === 1 ? files[0].text : files.map(f => `# ${f.name}\n\n${f.text}`).join('\n\n');
@@ -0,0 +1,62 @@
+import { JsonSchema } from "../types";
+
+// Minimal JSON Schema validator covering the subset that structured-output models support:
+// type, properties, required, additionalProperties, items, enum, min/max bounds and lengths
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const validateAt = (value: unknown, schema: JsonSchema, path: string, errors: string[]) => {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length && !types.some(t => matchesType(value, t))) {
+    errors.push(`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+    if (schema.items) value.forEach((item, i) => validateAt(item, schema.items!, `${path}[${i}]`, errors));
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in obj)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) validateAt(child, propSchema, `${path}.${key}`, errors);
+      else if (schema.additionalProperties === false) errors.push(`${path}: unexpected property "${key}"`);
+      else if (typeof schema.additionalProperties === 'object') validateAt(child, schema.additionalProperties, `${path}.${key}`, errors);
+    }
+  }
+};
+
+// Returns human-readable errors with JSONPath-like locations; empty when valid
+export const validateJson = (value: unknown, schema: JsonSchema): string[] => {
+  const errors: string[] = [];
+  validateAt(value, schema, '$', errors);
+  return errors;
+};
@@ -0,0 +1,369 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import {
+  GenerationSettings,
+  LLMProvider,
+  ModelTarget,
+  OpenAICompatibleConfig,
+  ProviderSettings,
+  TokenUsage,
+  UsageFeature,
+  UsageRecord
+} from "../types";
+import { classifyError, MissingKeyError, SafetyBlockError } from "./errors";
+import { schedule } from "./requestScheduler";
+import { CacheKeyParts, getCachedResponse, hashCacheKey, isCacheEnabled, putCachedResponse } from "./responseCache";
+import { estimateTokens, recordUsage } from "./usageTracker";
+
+export interface GenerateRequest extends GenerationSettings {
+  model: string;
+  prompt: string;
+  jsonSchema?: object; // Plain JSON Schema; the response is then expected to be JSON text
+  signal?: AbortSignal;
+  onText?: (textSoFar: string) => void; // When set, the response is streamed
+  bypassCache?: boolean; // Always call the model, but still store the fresh response
+  cacheIf?: (text: string) => boolean; // Responses failing it are neither stored nor served from the cache
+  feature?: UsageFeature; // Attributes the token usage in the session ledger
+  onUsage?: (record: UsageRecord) => void;
+}
+
+export interface GenerateResult {
+  text: string;
+  usage?: TokenUsage; // Missing when the endpoint does not report usage
+}
+
+export interface EmbedResult {
+  vectors: number[][];
+  usage?: TokenUsage; // Gemini does not report usage for embeddings
+}
+
+export interface LLMClient {
+  provider: LLMProvider;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+  embed: (model: string, texts: string[], signal?: AbortSignal) => Promise<EmbedResult>;
+}
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Gemini reports blocks as an empty response rather than an HTTP error
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`The prompt was blocked by safety filters (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`The response was blocked by safety filters (${finishReason}).`);
+  }
+};
+
+const geminiUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    inputTokens: meta.promptTokenCount || 0,
+    outputTokens: meta.candidatesTokenCount || 0,
+    thinkingTokens: meta.thoughtsTokenCount || 0,
+  };
+};
+
+// Gemini via the official SDK, preferring the user key but falling back to environment
+const createGeminiClient = (userKey: string | null): LLMClient => {
+  const apiKey = userKey || process.env.API_KEY;
+  if (!apiKey) {
+    throw new MissingKeyError("API Key is missing. Please provide it in settings or environment.");
+  }
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    provider: LLMProvider.GEMINI,
+    generate: async ({ model, prompt, jsonSchema, signal, onText, ...generation }) => {
+      // "Thinking" alias: Flash with thinking on, dynamic unless the caller sets a budget
+      let actualModel = model;
+      let thinkingBudget = generation.thinkingBudget;
+      if (model === 'gemini-2.5-flash-thinking') {
+        actualModel = 'gemini-2.5-flash';
+        thinkingBudget ??= -1;
+      }
+
+      const params = {
+        model: actualModel,
+        contents: prompt,
+        config: {
+          systemInstruction: generation.systemInstruction || undefined,
+          maxOutputTokens: generation.maxTokens,
+          temperature: generation.temperature,
+          topP: generation.topP,
+          topK: generation.topK,
+          stopSequences: generation.stopSequences?.length ? generation.stopSequences : undefined,
+          seed: generation.seed,
+          thinkingConfig: thinkingBudget !== undefined ? { thinkingBudget } : undefined,
+          responseMimeType: jsonSchema ? 'application/json' : undefined,
+          responseJsonSchema: jsonSchema,
+          abortSignal: signal,
+        }
+      };
+
+      if (!onText) {
+        const response = await ai.models.generateContent(params);
+        assertNotBlocked(response);
+        return { text: response.text || '', usage: geminiUsage(response) };
+      }
+
+      let text = '';
+      let usage: TokenUsage | undefined;
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        throwIfAborted(signal);
+        assertNotBlocked(chunk);
+        text += chunk.text || '';
+        // Every chunk carries the running totals, so the last one wins
+        usage = geminiUsage(chunk) || usage;
+        onText(text);
+      }
+      return { text, usage };
+    },
+    embed: async (model, texts, signal) => {
+      const response = await ai.models.embedContent({ model, contents: texts, config: { abortSignal: signal } });
+      return { vectors: (response.embeddings || []).map(e => e.values || []) };
+    }
+  };
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('The request was cancelled.', 'AbortError');
+};
+
+// Yields the JSON payload of every `data:` line of a server-sent events body
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>, signal?: AbortSignal) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      throwIfAborted(signal);
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        yield JSON.parse(data);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const trimBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+const httpError = async (res: Response, what: string) =>
+  classifyError(Object.assign(new Error(`${what} failed (${res.status}): ${await res.text()}`), { status: res.status }));
+
+const assertNotFiltered = (finishReason?: string) => {
+  if (finishReason === 'content_filter') {
+    throw new SafetyBlockError('The response was blocked by the endpoint\'s content filter.');
+  }
+};
+
+// The `usage` object of chat completion responses and of the final streamed chunk
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+const openAIUsage = (usage: OpenAIUsage | undefined): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  return {
+    inputTokens: usage.prompt_tokens || 0,
+    // Reasoning tokens are included in completion_tokens by this protocol
+    outputTokens: (usage.completion_tokens || 0) - thinkingTokens,
+    thinkingTokens,
+  };
+};
+
+const openAIHeaders = (config: OpenAICompatibleConfig) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Local servers such as Ollama accept requests without a key
+  if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+  return headers;
+};
+
+// Any server speaking the OpenAI Chat Completions protocol (OpenAI, Ollama, vLLM, LM Studio...)
+const createOpenAICompatibleClient = (config: OpenAICompatibleConfig): LLMClient => {
+  if (!config.baseUrl.trim()) {
+    throw new MissingKeyError("Base URL for the OpenAI-compatible endpoint is missing. Please provide it in settings.");
+  }
+
+  return {
+    provider: LLMProvider.OTHER,
+    generate: async ({ model, prompt, jsonSchema, signal, onText, ...generation }) => {
+      const messages = generation.systemInstruction
+        ? [{ role: 'system', content: generation.systemInstruction }, { role: 'user', content: prompt }]
+        : [{ role: 'user', content: prompt }];
+
+      // top_k is not part of the OpenAI protocol but Ollama, vLLM and LM Studio accept it;
+      // the thinking budget has no portable equivalent and is not sent
+      const res = await fetch(`${trimBaseUrl(config.baseUrl)}/chat/completions`, {
+        method: 'POST',
+        headers: openAIHeaders(config),
+        body: JSON.stringify({
+          model,
+          messages,
+          max_tokens: generation.maxTokens,
+          temperature: generation.temperature,
+          top_p: generation.topP,
+          top_k: generation.topK,
+          stop: generation.stopSequences?.length ? generation.stopSequences : undefined,
+          seed: generation.seed,
+          response_format: jsonSchema
+            ? { type: 'json_schema', json_schema: { name: 'response', schema: jsonSchema } }
+            : undefined,
+          stream: !!onText,
+          stream_options: onText ? { include_usage: true } : undefined,
+        }),
+        signal,
+      });
+      if (!res.ok) throw await httpError(res, `${model} request`);
+
+      if (!onText || !res.body) {
+        const data = await res.json();
+        assertNotFiltered(data.choices?.[0]?.finish_reason);
+        return { text: data.choices?.[0]?.message?.content || '', usage: openAIUsage(data.usage) };
+      }
+
+      let text = '';
+      let usage: TokenUsage | undefined;
+      for await (const event of readServerSentEvents(res.body, signal)) {
+        assertNotFiltered(event.choices?.[0]?.finish_reason);
+        text += event.choices?.[0]?.delta?.content || '';
+        usage = openAIUsage(event.usage) || usage;
+        onText(text);
+      }
+      return { text, usage };
+    },
+    embed: async (model, texts, signal) => {
+      const res = await fetch(`${trimBaseUrl(config.baseUrl)}/embeddings`, {
+        method: 'POST',
+        headers: openAIHeaders(config),
+        body: JSON.stringify({ model, input: texts }),
+        signal,
+      });
+      if (!res.ok) throw await httpError(res, `${model} embeddings`);
+      const data = await res.json();
+      // Results carry their input index and are not guaranteed to be in order
+      const vectors = [...(data.data || [])].sort((a, b) => a.index - b.index).map((d: { embedding: number[] }) => d.embedding);
+      return { vectors, usage: openAIUsage(data.usage) };
+    }
+  };
+};
+
+export const getClient = (provider: LLMProvider, settings: ProviderSettings): LLMClient => {
+  if (provider === LLMProvider.OTHER) return createOpenAICompatibleClient(settings.openAICompatible);
+  return createGeminiClient(settings.geminiApiKey);
+};
+
+// Runs a single prompt against the given provider/model pair through the response
+// cache and the request scheduler
+export const generateText = async (
+  target: ModelTarget,
+  settings: ProviderSettings,
+  request: Omit<GenerateRequest, 'model'>
+): Promise<string> => {
+  const client = getClient(target.provider, settings);
+
+  const { prompt, jsonSchema, signal, onText, bypassCache, cacheIf, feature, onUsage, ...generation } = request;
+  const cacheParts: CacheKeyParts = {
+    provider: target.provider,
+    model: target.model,
+    prompt,
+    generation,
+    jsonSchema,
+    baseUrl: target.provider === LLMProvider.OTHER ? trimBaseUrl(settings.openAICompatible.baseUrl) : undefined,
+  };
+  const cacheKey = isCacheEnabled() ? await hashCacheKey(cacheParts).catch(() => null) : null;
+  if (cacheKey && !bypassCache) {
+    const cached = await getCachedResponse(cacheKey).catch(() => null);
+    if (cached !== null && (!cacheIf || cacheIf(cached))) {
+      onText?.(cached);
+      return cached;
+    }
+  }
+
+  const record = (usage: TokenUsage) => onUsage?.(recordUsage(feature || 'agents', target.provider, target.model, usage));
+
+  let streamed = '';
+  let result: GenerateResult;
+  try {
+    result = await schedule((attemptSignal, keepAlive) => client.generate({
+      ...generation,
+      model: target.model,
+      prompt,
+      jsonSchema,
+      signal: attemptSignal,
+      onText: onText && ((partial) => {
+        keepAlive();
+        streamed = partial;
+        onText(partial);
+      }),
+    }), signal);
+  } catch (err) {
+    // A stopped stream never reports its usage, but the tokens it produced are still billed
+    if (signal?.aborted && streamed) {
+      record({ inputTokens: estimateTokens(prompt.length), outputTokens: estimateTokens(streamed.length), thinkingTokens: 0 });
+    }
+    throw err;
+  }
+
+  const { text, usage } = result;
+  if (usage) record(usage);
+
+  // A cache failure (private browsing, quota) must never fail the request itself; like a failed
+  // lookup above, it only means the next identical call goes to the model again
+  if (cacheKey && text && (!cacheIf || cacheIf(text))) await putCachedResponse(cacheKey, cacheParts, text).catch(() => undefined);
+  return text;
+};
+
+// Gemini accepts at most 100 inputs per embedding request
+const EMBED_BATCH_SIZE = 100;
+
+/**
+ * Embeds texts through the request scheduler, in batches; not cached, callers keep their own vectors.
+ * Usage is recorded per batch, estimated from the input length when the provider does not report it.
+ */
+export const embedTexts = async (
+  target: ModelTarget,
+  settings: ProviderSettings,
+  texts: string[],
+  feature: UsageFeature,
+  signal?: AbortSignal
+): Promise<number[][]> => {
+  const client = getClient(target.provider, settings);
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+    const result = await schedule((attemptSignal) => client.embed(target.model, batch, attemptSignal), signal);
+    const usage = result.usage || {
+      inputTokens: estimateTokens(batch.reduce((sum, text) => sum + text.length, 0)),
+      outputTokens: 0,
+      thinkingTokens: 0,
+    };
+    recordUsage(feature, target.provider, target.model, usage);
+    if (result.vectors.length !== batch.length) throw new Error(`${target.model} returned ${result.vectors.length} embeddings for ${batch.length} inputs`);
+    vectors.push(...result.vectors);
+  }
+  return vectors;
+};
+
+// Lists the model ids served by an OpenAI-compatible endpoint (GET /models)
+export const listOpenAICompatibleModels = async (config: OpenAICompatibleConfig): Promise<string[]> => {
+  const res = await fetch(`${trimBaseUrl(config.baseUrl)}/models`, { headers: openAIHeaders(config) });
+  if (!res.ok) throw await httpError(res, 'Listing models');
+  const data = await res.json();
+  return (data.data || []).map((m: { id: string }) => m.id);
+};
@@ -0,0 +1,67 @@
+import { marked } from 'marked';
+
+// Only what `marked` emits survives, each with the attributes marked sets on it
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [], br: [], hr: [], blockquote: [], pre: [], em: [], strong: [], del: [], s: [], sub: [], sup: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  ul: [], ol: ['start'], li: [],
+  code: ['class'],
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title'],
+  table: [], thead: [], tbody: [], tr: [], th: ['align'], td: ['align'],
+  input: ['type', 'checked', 'disabled'], // Task list checkboxes
+};
+// Other elements are unwrapped to their text, except these, whose content is code or markup
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'frame', 'frameset', 'noframes', 'noembed', 'noscript',
+  'template', 'textarea', 'xmp', 'plaintext', 'title', 'svg', 'math', 'select', 'head',
+]);
+const URL_ATTRIBUTES = ['href', 'src'];
+const SAFE_URL = /^(https?:|mailto:|#|\/|\.|data:image\/(png|gif|jpe?g|webp);)/i;
+
+/**
+ * Model output is untrusted. Copies only allowed elements, attributes and text into a fresh
+ * document, so nothing from the parsed input (namespaces, odd nesting) reaches the output.
+ */
+export const sanitizeHtml = (html: string): string => {
+  const source = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const target = document.implementation.createHTMLDocument('');
+
+  const copyChildren = (from: Node, to: Node) => from.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      to.appendChild(target.createTextNode(child.textContent || ''));
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+    const el = child as Element;
+    const tag = el.localName.toLowerCase();
+    const allowed = el.namespaceURI === 'http://www.w3.org/1999/xhtml' ? ALLOWED_TAGS[tag] : undefined;
+    if (!allowed) {
+      if (!DROPPED_TAGS.has(tag)) copyChildren(el, to);
+      return;
+    }
+    if (tag === 'input' && el.getAttribute('type') !== 'checkbox') return;
+
+    const copy = target.createElement(tag);
+    for (const name of allowed) {
+      const value = el.getAttribute(name);
+      if (value === null) continue;
+      if (URL_ATTRIBUTES.includes(name) && !SAFE_URL.test(value.trim().replace(/[\u0000-\u001f\s]/g, ''))) continue;
+      if (name === 'class' && !/^language-[\w-]+$/.test(value)) continue; // Code block language only
+      copy.setAttribute(name, value);
+    }
+    // Links open outside the app
+    if (tag === 'a') {
+      copy.setAttribute('target', '_blank');
+      copy.setAttribute('rel', 'noopener noreferrer');
+    }
+    copyChildren(el, copy);
+    to.appendChild(copy);
+  });
+
+  const body = target.createElement('div');
+  copyChildren(source.body, body);
+  return body.innerHTML;
+};
+
+export const renderMarkdown = (text: string): string => sanitizeHtml(marked.parse(text, { async: false }) as string);
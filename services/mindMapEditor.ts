@@ -0,0 +1,191 @@
+import { MindMapData, MindMapLink, MindMapNode } from "../types";
+import { mergeSnippets } from "./sourceSnippets";
+
+// Every change to a mind map is a command, so it can be described, validated and undone
+
+export class MindMapEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MindMapEditError';
+  }
+}
+
+export type MindMapCommand =
+  | { type: 'addNode'; id: string; group?: number }
+  | { type: 'renameNode'; id: string; to: string }
+  | { type: 'deleteNodes'; ids: string[] }
+  | { type: 'mergeNodes'; ids: string[]; into: string } // `into` keeps its id and group
+  | { type: 'addLink'; source: string; target: string }
+  | { type: 'deleteLink'; source: string; target: string }
+  | { type: 'setGroup'; ids: string[]; group: number }
+  | { type: 'pinNode'; id: string; position: { x: number; y: number } | null }
+  | { type: 'replace'; data: MindMapData; label: string }; // E.g. a freshly generated map
+
+export interface MindMapHistoryEntry {
+  data: MindMapData; // The map before the command
+  label: string;
+}
+
+export interface MindMapHistory {
+  past: MindMapHistoryEntry[];
+  present: MindMapData;
+  future: MindMapHistoryEntry[]; // The map after each undone command
+}
+
+const HISTORY_LIMIT = 100;
+
+const sameLink = (link: MindMapLink, a: string, b: string) =>
+  (link.source === a && link.target === b) || (link.source === b && link.target === a);
+
+const requireNode = (data: MindMapData, id: string): MindMapNode => {
+  const node = data.nodes.find(n => n.id === id);
+  if (!node) throw new MindMapEditError(`There is no node "${id}".`);
+  return node;
+};
+
+const requireNewId = (data: MindMapData, id: string) => {
+  if (!id.trim()) throw new MindMapEditError('Node names cannot be empty.');
+  if (data.nodes.some(n => n.id === id)) throw new MindMapEditError(`A node named "${id}" already exists.`);
+};
+
+// Drops self-loops and keeps one link per direction between two nodes, with the strongest value
+// and the evidence of all; opposite directions stay apart as their labels read differently
+const dedupeLinks = (links: MindMapLink[]): MindMapLink[] => {
+  const result: MindMapLink[] = [];
+  for (const link of links) {
+    if (link.source === link.target) continue;
+    const existing = result.find(l => l.source === link.source && l.target === link.target);
+    if (existing) {
+      existing.value = Math.max(existing.value, link.value);
+      existing.label ||= link.label;
+      existing.sources = mergeSnippets(existing.sources, link.sources);
+    } else {
+      result.push({ ...link });
+    }
+  }
+  return result;
+};
+
+export const applyCommand = (data: MindMapData, command: MindMapCommand): MindMapData => {
+  switch (command.type) {
+    case 'addNode': {
+      const id = command.id.trim();
+      requireNewId(data, id);
+      return { ...data, nodes: [...data.nodes, { id, group: command.group }] };
+    }
+    case 'renameNode': {
+      requireNode(data, command.id);
+      const to = command.to.trim();
+      if (to === command.id) return data;
+      requireNewId(data, to);
+      const rename = (id: string) => id === command.id ? to : id;
+      return {
+        nodes: data.nodes.map(n => n.id === command.id ? { ...n, id: to } : n),
+        links: data.links.map(l => ({ ...l, source: rename(l.source), target: rename(l.target) })),
+      };
+    }
+    case 'deleteNodes': {
+      command.ids.forEach(id => requireNode(data, id));
+      const gone = new Set(command.ids);
+      return {
+        nodes: data.nodes.filter(n => !gone.has(n.id)),
+        links: data.links.filter(l => !gone.has(l.source) && !gone.has(l.target)),
+      };
+    }
+    case 'mergeNodes': {
+      command.ids.forEach(id => requireNode(data, id));
+      if (!command.ids.includes(command.into)) throw new MindMapEditError('The merged node must be one of the selected nodes.');
+      const merged = new Set(command.ids.filter(id => id !== command.into));
+      const redirect = (id: string) => merged.has(id) ? command.into : id;
+      const absorbed = data.nodes.filter(n => merged.has(n.id));
+      const keep = (n: MindMapNode): MindMapNode => n.id !== command.into ? n : {
+        ...n,
+        description: n.description || absorbed.find(a => a.description)?.description,
+        sources: mergeSnippets(n.sources, ...absorbed.map(a => a.sources)),
+      };
+      return {
+        nodes: data.nodes.filter(n => !merged.has(n.id)).map(keep),
+        links: dedupeLinks(data.links.map(l => ({ ...l, source: redirect(l.source), target: redirect(l.target) }))),
+      };
+    }
+    case 'addLink': {
+      requireNode(data, command.source);
+      requireNode(data, command.target);
+      if (command.source === command.target) throw new MindMapEditError('A node cannot be linked to itself.');
+      if (data.links.some(l => sameLink(l, command.source, command.target))) {
+        throw new MindMapEditError(`"${command.source}" and "${command.target}" are already linked.`);
+      }
+      return { ...data, links: [...data.links, { source: command.source, target: command.target, value: 1 }] };
+    }
+    case 'deleteLink': {
+      if (!data.links.some(l => sameLink(l, command.source, command.target))) {
+        throw new MindMapEditError(`"${command.source}" and "${command.target}" are not linked.`);
+      }
+      return { ...data, links: data.links.filter(l => !sameLink(l, command.source, command.target)) };
+    }
+    case 'setGroup': {
+      command.ids.forEach(id => requireNode(data, id));
+      return { ...data, nodes: data.nodes.map(n => command.ids.includes(n.id) ? { ...n, group: command.group } : n) };
+    }
+    case 'pinNode': {
+      requireNode(data, command.id);
+      return {
+        ...data,
+        nodes: data.nodes.map(n => {
+          if (n.id !== command.id) return n;
+          const { pinned, ...rest } = n;
+          return command.position ? { ...rest, pinned: command.position } : rest;
+        }),
+      };
+    }
+    case 'replace':
+      return command.data;
+  }
+};
+
+export const describeCommand = (command: MindMapCommand): string => {
+  switch (command.type) {
+    case 'addNode': return `Add "${command.id}"`;
+    case 'renameNode': return `Rename "${command.id}" to "${command.to}"`;
+    case 'deleteNodes': return command.ids.length === 1 ? `Delete "${command.ids[0]}"` : `Delete ${command.ids.length} nodes`;
+    case 'mergeNodes': return `Merge ${command.ids.length} nodes into "${command.into}"`;
+    case 'addLink': return `Link "${command.source}" and "${command.target}"`;
+    case 'deleteLink': return `Unlink "${command.source}" and "${command.target}"`;
+    case 'setGroup': return `Move ${command.ids.length === 1 ? `"${command.ids[0]}"` : `${command.ids.length} nodes`} to group ${command.group}`;
+    case 'pinNode': return command.position ? `Pin "${command.id}"` : `Unpin "${command.id}"`;
+    case 'replace': return command.label;
+  }
+};
+
+export const createHistory = (data: MindMapData): MindMapHistory => ({ past: [], present: data, future: [] });
+
+// Applies a command and records it; throws MindMapEditError without touching the history
+export const executeCommand = (history: MindMapHistory, command: MindMapCommand): MindMapHistory => {
+  const next = applyCommand(history.present, command);
+  if (next === history.present) return history;
+  return {
+    past: [...history.past, { data: history.present, label: describeCommand(command) }].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+  };
+};
+
+export const undo = (history: MindMapHistory): MindMapHistory => {
+  const last = history.past[history.past.length - 1];
+  if (!last) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: last.data,
+    future: [{ data: history.present, label: last.label }, ...history.future],
+  };
+};
+
+export const redo = (history: MindMapHistory): MindMapHistory => {
+  const [next, ...rest] = history.future;
+  if (!next) return history;
+  return {
+    past: [...history.past, { data: history.present, label: next.label }],
+    present: next.data,
+    future: rest,
+  };
+};
@@ -0,0 +1,554 @@
+import { MindMapData, MindMapLink, MindMapNode, SourceSnippet } from "../types";
+import { Point, pickRoot, spanningForest } from "./graphLayout";
+
+// Conversions between mind maps and the formats other tools read and write
+
+export class MindMapImportError extends Error {
+  fileName: string;
+
+  constructor(fileName: string, message: string) {
+    super(`${fileName}: ${message}`);
+    this.name = 'MindMapImportError';
+    this.fileName = fileName;
+  }
+}
+
+export type MindMapExportFormat = 'svg' | 'png' | 'json' | 'graphml' | 'opml' | 'mermaid';
+
+export const MIND_MAP_IMPORT_ACCEPT = '.json,.graphml,.xml,.opml,.mmd,.mermaid,.md,.markdown,.txt';
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// --- Export ---
+
+// Positions are the ones on screen, so another tool (or a later import) can reproduce the picture
+export const toMindMapJson = (data: MindMapData, positions: Map<string, Point>): string => JSON.stringify({
+  nodes: data.nodes.map(n => {
+    const at = positions.get(n.id);
+    return at ? { ...n, x: round(at.x), y: round(at.y) } : n;
+  }),
+  links: data.links,
+}, null, 2);
+
+export const toGraphML = (data: MindMapData, positions: Map<string, Point>): string => {
+  const ids = new Map(data.nodes.map((n, i) => [n.id, `n${i}`]));
+  const nodes = data.nodes.map(n => {
+    const at = n.pinned || positions.get(n.id);
+    return [
+      `    <node id="${ids.get(n.id)}">`,
+      `      <data key="label">${escapeXml(n.id)}</data>`,
+      n.description && `      <data key="description">${escapeXml(n.description)}</data>`,
+      n.group !== undefined && `      <data key="group">${n.group}</data>`,
+      at && `      <data key="x">${round(at.x)}</data>`,
+      at && `      <data key="y">${round(at.y)}</data>`,
+      n.pinned && `      <data key="pinned">true</data>`,
+      '    </node>',
+    ].filter(Boolean).join('\n');
+  });
+  const edges = data.links
+    .filter(l => ids.has(l.source) && ids.has(l.target))
+    .map((l, i) => [
+      `    <edge id="e${i}" source="${ids.get(l.source)}" target="${ids.get(l.target)}">`,
+      `<data key="weight">${l.value}</data>`,
+      l.label ? `<data key="relationship">${escapeXml(l.label)}</data>` : '',
+      '</edge>',
+    ].join(''));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="description" for="node" attr.name="description" attr.type="string"/>',
+    '  <key id="group" for="node" attr.name="group" attr.type="int"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="pinned" for="node" attr.name="pinned" attr.type="boolean"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="relationship" for="edge" attr.name="label" attr.type="string"/>',
+    '  <graph id="mindmap" edgedefault="undirected">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+  ].join('\n');
+};
+
+// An outline is a tree, so links outside the spanning tree from the central node are left out.
+// Descriptions go in `_note`, which most outliners show as the item's note.
+export const toOpml = (data: MindMapData, title: string): string => {
+  const root = pickRoot(data);
+  if (!root) return toOpmlDocument(title, []);
+  const { roots, children } = spanningForest(data, root);
+  const notes = new Map(data.nodes.filter(n => n.description).map(n => [n.id, n.description!]));
+  const outline = (id: string, depth: number): string[] => {
+    const pad = '  '.repeat(depth + 2);
+    const kids = children.get(id) || [];
+    const note = notes.has(id) ? ` _note="${escapeXml(notes.get(id)!)}"` : '';
+    if (kids.length === 0) return [`${pad}<outline text="${escapeXml(id)}"${note}/>`];
+    return [`${pad}<outline text="${escapeXml(id)}"${note}>`, ...kids.flatMap(kid => outline(kid, depth + 1)), `${pad}</outline>`];
+  };
+  return toOpmlDocument(title, roots.flatMap(id => outline(id, 0)));
+};
+
+const toOpmlDocument = (title: string, outlines: string[]) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<opml version="2.0">',
+  `  <head><title>${escapeXml(title)}</title></head>`,
+  '  <body>',
+  ...outlines,
+  '  </body>',
+  '</opml>',
+].join('\n');
+
+// Mermaid labels cannot contain quotes or pipes; it decodes `#quot;` style entities instead.
+// `#` itself is escaped first, so text that looks like an entity survives the round trip.
+const mermaidText = (text: string) =>
+  text.replace(/#/g, '#35;').replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\n/g, ' ');
+const mermaidLabel = (text: string) => `"${mermaidText(text)}"`;
+
+// Groups become subgraphs and link weights stroke widths, so they survive a round trip
+export const toMermaid = (data: MindMapData): string => {
+  const ids = new Map(data.nodes.map((n, i) => [n.id, `n${i}`]));
+  const lines = ['graph LR'];
+  const groups = [...new Set<number>(data.nodes.filter(n => n.group !== undefined).map(n => n.group!))].sort((a, b) => a - b);
+  for (const group of groups) {
+    lines.push(`  subgraph group${group}["Group ${group}"]`);
+    data.nodes.filter(n => n.group === group).forEach(n => lines.push(`    ${ids.get(n.id)}[${mermaidLabel(n.id)}]`));
+    lines.push('  end');
+  }
+  data.nodes.filter(n => n.group === undefined).forEach(n => lines.push(`  ${ids.get(n.id)}[${mermaidLabel(n.id)}]`));
+  const links = data.links.filter(l => ids.has(l.source) && ids.has(l.target));
+  links.forEach(l => lines.push(`  ${ids.get(l.source)} ---${l.label ? `|${mermaidText(l.label)}|` : ''} ${ids.get(l.target)}`));
+  // Mermaid numbers links in the order they are defined
+  links.forEach((l, i) => l.value !== 1 && lines.push(`  linkStyle ${i} stroke-width:${l.value}px`));
+  return lines.join('\n');
+};
+
+export interface RenderedSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+const SVG_PADDING = 24;
+
+// The first opaque background behind the map, so light text stays readable outside the app
+const backgroundBehind = (el: Element): string => {
+  for (let at: Element | null = el; at; at = at.parentElement) {
+    const color = getComputedStyle(at).backgroundColor;
+    if (color.startsWith('rgb(')) return color;
+  }
+  return '#ffffff';
+};
+
+/**
+ * A standalone copy of the rendered map, cropped to its content regardless of the current pan
+ * and zoom, with inherited colours and fonts written out.
+ */
+export const renderMindMapSvg = (svg: SVGSVGElement): RenderedSvg => {
+  const scene = svg.querySelector('g') as SVGGElement | null;
+  if (!scene) throw new Error('The mind map has not been drawn yet.');
+  const box = scene.getBBox(); // In the scene's own coordinates, i.e. without pan and zoom
+  const width = Math.ceil(box.width + SVG_PADDING * 2);
+  const height = Math.ceil(box.height + SVG_PADDING * 2);
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.querySelector('g')!.removeAttribute('transform');
+  clone.querySelectorAll('title, [display="none"]').forEach(el => el.remove());
+  clone.querySelectorAll('[stroke="transparent"]').forEach(el => el.remove()); // Click targets
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', [box.x - SVG_PADDING, box.y - SVG_PADDING, width, height].join(' '));
+  clone.removeAttribute('class');
+
+  const style = getComputedStyle(svg);
+  clone.setAttribute('font-family', style.fontFamily);
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('x', String(box.x - SVG_PADDING));
+  background.setAttribute('y', String(box.y - SVG_PADDING));
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', backgroundBehind(svg));
+  clone.insertBefore(background, clone.firstChild);
+
+  const markup = new XMLSerializer().serializeToString(clone).replace(/currentColor/g, style.color);
+  return { markup: `<?xml version="1.0" encoding="UTF-8"?>\n${markup}`, width, height };
+};
+
+export const renderMindMapPng = (svg: RenderedSvg, scale: number): Promise<Blob> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(svg.width * scale);
+    canvas.height = Math.round(svg.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return reject(new Error('Canvas rendering is not available in this browser.'));
+    ctx.scale(scale, scale);
+    ctx.drawImage(image, 0, 0, svg.width, svg.height);
+    // toBlob yields null when the canvas exceeds the browser's size limit
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`The image is too large at ${scale}x; try a lower resolution.`)), 'image/png');
+  };
+  image.onerror = () => reject(new Error('Could not render the mind map as an image.'));
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg.markup)}`;
+});
+
+// --- Import ---
+
+export interface ImportedMindMap {
+  data: MindMapData;
+  positions: Map<string, Point>; // Where the source file placed its nodes, when it says
+}
+
+type PlacedNode = MindMapNode & Partial<Point>;
+
+// Drops links to unknown nodes, repeated links in the same direction and self-loops; ids are labels, so repeated labels merge
+const normalize = (nodes: PlacedNode[], links: MindMapLink[]): ImportedMindMap => {
+  const byId = new Map<string, MindMapNode>();
+  const positions = new Map<string, Point>();
+  nodes.forEach(({ x, y, ...n }) => {
+    const id = n.id.trim();
+    if (!id || byId.has(id)) return;
+    byId.set(id, { ...n, id });
+    if (x !== undefined && y !== undefined && isFinite(x) && isFinite(y)) positions.set(id, { x, y });
+  });
+  const seen = new Set<string>();
+  const kept: MindMapLink[] = [];
+  links.forEach(l => {
+    const source = l.source.trim();
+    const target = l.target.trim();
+    const key = `${source}\u0000${target}`; // Directed, like the links the generator makes
+    if (source === target || !byId.has(source) || !byId.has(target) || seen.has(key)) return;
+    seen.add(key);
+    kept.push({ ...l, source, target, value: Number.isFinite(l.value) && l.value > 0 ? l.value : 1 });
+  });
+  return { data: { nodes: [...byId.values()], links: kept }, positions };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isPoint = (value: unknown): value is Point =>
+  isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number' && isFinite(value.x) && isFinite(value.y);
+
+const optionalNumber = (value: unknown) => typeof value === 'number' ? value : undefined;
+
+const optionalString = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const isSnippet = (value: unknown): value is SourceSnippet =>
+  isRecord(value) && typeof value.text === 'string' && Number.isInteger(value.start) && Number.isInteger(value.end);
+
+const snippetsOf = (value: unknown): SourceSnippet[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const snippets = value.filter(isSnippet).map((s): SourceSnippet => ({ text: s.text, start: s.start, end: s.end }));
+  return snippets.length ? snippets : undefined;
+};
+
+// Our own export, and the common `{nodes, links|edges}` shape of d3 and similar tools
+export const fromMindMapJson = (text: string): ImportedMindMap => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const rawNodes = isRecord(parsed) ? parsed.nodes : undefined;
+  const rawLinks = isRecord(parsed) ? parsed.links ?? parsed.edges ?? [] : undefined;
+  if (!Array.isArray(rawNodes) || !Array.isArray(rawLinks)) throw new Error('Expected an object with "nodes" and "links" arrays.');
+
+  const label = (n: unknown) => isRecord(n) ? String(n.id ?? n.label ?? n.name ?? '') : String(n ?? '');
+  const nodes = rawNodes.map((n: unknown): PlacedNode => {
+    const fields = isRecord(n) ? n : {};
+    return {
+      id: label(n),
+      x: optionalNumber(fields.x),
+      y: optionalNumber(fields.y),
+      group: optionalNumber(fields.group),
+      val: optionalNumber(fields.val),
+      pinned: isPoint(fields.pinned) ? { x: fields.pinned.x, y: fields.pinned.y } : undefined,
+      description: optionalString(fields.description),
+      sources: snippetsOf(fields.sources),
+    };
+  });
+  // d3 replaces link ends with node objects, so accept those too
+  const links = rawLinks.map((l: unknown): MindMapLink => {
+    const fields = isRecord(l) ? l : {};
+    return {
+      source: label(fields.source),
+      target: label(fields.target),
+      value: Number(fields.value ?? fields.weight ?? 1),
+      label: optionalString(fields.label),
+      sources: snippetsOf(fields.sources),
+    };
+  });
+  return normalize(nodes, links);
+};
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0]}`);
+  return doc;
+};
+
+const byTag = (parent: Document | Element, tag: string) => [...parent.getElementsByTagNameNS('*', tag)];
+
+// Labels come from a label/name/text attribute key, or yEd's NodeLabel; otherwise the node id
+export const fromGraphML = (text: string): ImportedMindMap => {
+  const doc = parseXml(text);
+  if (byTag(doc, 'graphml').length === 0) throw new Error('Not a GraphML document.');
+  const keys = new Map(byTag(doc, 'key').map(k => [k.getAttribute('id') || '', (k.getAttribute('attr.name') || '').toLowerCase()]));
+  const dataOf = (el: Element, names: string[]) => {
+    const match = [...el.children].find(child => child.localName === 'data' && names.includes(keys.get(child.getAttribute('key') || '') || ''));
+    return match?.textContent?.trim();
+  };
+
+  const labels = new Map<string, string>();
+  const nodes = byTag(doc, 'node').map((el): PlacedNode => {
+    const id = el.getAttribute('id') || '';
+    const label = dataOf(el, ['label', 'name', 'text', 'title']) || byTag(el, 'NodeLabel')[0]?.textContent?.trim() || id;
+    labels.set(id, label);
+    const group = Number(dataOf(el, ['group', 'cluster', 'community']));
+    const x = parseFloat(dataOf(el, ['x']) ?? '');
+    const y = parseFloat(dataOf(el, ['y']) ?? '');
+    const pinned = dataOf(el, ['pinned']) === 'true' && isFinite(x) && isFinite(y) ? { x, y } : undefined;
+    const description = dataOf(el, ['description']) || undefined;
+    return { id: label, group: Number.isInteger(group) ? group : undefined, pinned, description, x, y };
+  });
+  const links = byTag(doc, 'edge').map((el): MindMapLink => ({
+    source: labels.get(el.getAttribute('source') || '') ?? '',
+    target: labels.get(el.getAttribute('target') || '') ?? '',
+    value: Number(dataOf(el, ['weight', 'value']) ?? 1),
+    label: dataOf(el, ['label', 'relationship']) || undefined,
+  }));
+  return normalize(nodes, links);
+};
+
+interface OutlineItem {
+  label: string;
+  note?: string;
+  children: OutlineItem[];
+}
+
+// Parents link to their children; every branch under a top-level item becomes a group
+const fromOutline = (roots: OutlineItem[]): ImportedMindMap => {
+  const nodes: MindMapNode[] = [];
+  const links: MindMapLink[] = [];
+  let groups = 0;
+  const visit = (item: OutlineItem, group: number | undefined) => {
+    nodes.push({ id: item.label, group, description: item.note });
+    item.children.forEach(child => {
+      links.push({ source: item.label, target: child.label, value: 1 });
+      visit(child, group ?? ++groups);
+    });
+  };
+  roots.forEach(root => visit(root, undefined));
+  return normalize(nodes, links);
+};
+
+export const fromOpml = (text: string): ImportedMindMap => {
+  const doc = parseXml(text);
+  const body = byTag(doc, 'body')[0];
+  if (byTag(doc, 'opml').length === 0 || !body) throw new Error('Not an OPML document.');
+  const toItem = (el: Element): OutlineItem => ({
+    label: (el.getAttribute('text') || el.getAttribute('title') || '').trim(),
+    note: el.getAttribute('_note')?.trim() || undefined,
+    children: [...el.children].filter(child => child.localName === 'outline').map(toItem),
+  });
+  return fromOutline([...body.children].filter(child => child.localName === 'outline').map(toItem));
+};
+
+// `-->`, `---`, `-.->`, `==>`, `--o`, `--x`, `~~~` and `-- text -->` (also with longer arrows), each with an optional `|text|`
+const MERMAID_EDGE_RE = /\s*(?:--\s+([^-|]+?)\s+-{2,}>?|==\s+([^=|]+?)\s+={2,}>?|<?-\.+->?|<?-{2,}(?:>|[ox](?=\s))?|<?={2,}>?|~{3})\s*(?:\|([^|]*)\|\s*)?/y;
+const MERMAID_SKIP_RE = /^(?:%%|graph\b|flowchart\b|classDef\b|class\b|style\b|linkStyle\b|click\b|direction\b)/;
+
+const decodeMermaid = (text: string) => text
+  .trim()
+  .replace(/^"(.*)"$/s, '$1')
+  .replace(/#quot;/g, '"')
+  .replace(/#(\d+);/g, (_m, code) => String.fromCharCode(Number(code)))
+  .replace(/<br\s*\/?>/gi, ' ')
+  .trim();
+
+// Reads `id`, optionally followed by a shaped label such as `[text]`, `(text)`, `{text}` or `>text]`
+const readMermaidNode = (line: string, at: number): { id: string; label?: string; end: number } | null => {
+  const idMatch = /\s*([\w.]+)/y;
+  idMatch.lastIndex = at;
+  const m = idMatch.exec(line);
+  if (!m) return null;
+  let end = idMatch.lastIndex;
+  let label: string | undefined;
+  const open = /[[({>]+[/\\]?/y;
+  open.lastIndex = end;
+  if (open.exec(line)) {
+    let i = open.lastIndex;
+    if (line[i] === '"') {
+      const close = line.indexOf('"', i + 1);
+      label = line.slice(i + 1, close < 0 ? line.length : close);
+      i = close < 0 ? line.length : close + 1;
+    } else {
+      const start = i;
+      while (i < line.length && !/[\])}]/.test(line[i])) i++;
+      label = line.slice(start, i).replace(/[/\\]$/, '');
+    }
+    while (i < line.length && /[/\\\])}]/.test(line[i])) i++;
+    end = i;
+  }
+  const classSuffix = /:::[\w-]+/y;
+  classSuffix.lastIndex = end;
+  if (classSuffix.exec(line)) end = classSuffix.lastIndex;
+  return { id: m[1], label: label === undefined ? undefined : decodeMermaid(label), end };
+};
+
+// `graph`/`flowchart` syntax: node shapes, chained and `&`-joined edges, and subgraphs as groups
+export const fromMermaid = (text: string): ImportedMindMap => {
+  const labels = new Map<string, string>();
+  const groups = new Map<string, number>();
+  const edges: [string, string, string | undefined][] = [];
+  const widths = new Map<number, number>(); // Stroke widths from `linkStyle`, by link number
+  const subgraphs: number[] = [];
+  let subgraphCount = 0;
+  let sawHeader = false;
+
+  const declare = (node: { id: string; label?: string }) => {
+    if (node.label) labels.set(node.id, node.label);
+    else if (!labels.has(node.id)) labels.set(node.id, node.id);
+    // Like Mermaid, a node belongs to the subgraph where it first appears
+    if (!groups.has(node.id) && subgraphs.length) groups.set(node.id, subgraphs[subgraphs.length - 1]);
+  };
+
+  // Statements end at line breaks or at semicolons outside quotes and `#quot;` style entities
+  for (const raw of text.split(/\r?\n/).flatMap(line => line.split(/(?<!#\w+);(?=(?:[^"]*"[^"]*")*[^"]*$)/))) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (/^(graph|flowchart)\b/.test(line)) sawHeader = true;
+    const style = /^linkStyle\s+([\d,\s]+?)\s+.*\bstroke-width:\s*([\d.]+)/.exec(line);
+    if (style) style[1].split(',').forEach(n => widths.set(Number(n), Number(style[2])));
+    if (MERMAID_SKIP_RE.test(line)) continue;
+    if (/^subgraph\b/.test(line)) {
+      subgraphs.push(++subgraphCount);
+      continue;
+    }
+    if (line === 'end') {
+      subgraphs.pop();
+      continue;
+    }
+
+    // Groups of `&`-joined nodes separated by edge operators; every pair across an edge links
+    let previous: string[] = [];
+    let current: string[] = [];
+    let edgeLabel: string | undefined;
+    let at = 0;
+    while (at < line.length) {
+      const node = readMermaidNode(line, at);
+      if (!node) break;
+      declare(node);
+      current.push(node.id);
+      at = node.end;
+      const amp = /\s*&\s*/y;
+      amp.lastIndex = at;
+      if (amp.exec(line)) {
+        at = amp.lastIndex;
+        continue;
+      }
+      previous.forEach(source => current.forEach(target => edges.push([source, target, edgeLabel])));
+      MERMAID_EDGE_RE.lastIndex = at;
+      const edge = MERMAID_EDGE_RE.exec(line);
+      if (!edge) {
+        previous = [];
+        break;
+      }
+      at = MERMAID_EDGE_RE.lastIndex;
+      edgeLabel = decodeMermaid(edge[1] ?? edge[2] ?? edge[3] ?? '') || undefined;
+      previous = current;
+      current = [];
+    }
+  }
+  if (!sawHeader) throw new Error('Expected a Mermaid "graph" or "flowchart" diagram.');
+
+  const nodes = [...labels.entries()].map(([id, label]): MindMapNode => ({ id: label, group: groups.get(id) }));
+  const links = edges.map(([source, target, label], i): MindMapLink => ({
+    source: labels.get(source)!,
+    target: labels.get(target)!,
+    value: widths.get(i) ?? 1,
+    label,
+  }));
+  return normalize(nodes, links);
+};
+
+const stripInlineMarkdown = (text: string) => text
+  .replace(/^\[[ xX]\]\s+/, '') // Task checkboxes
+  .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/(\*\*|__|\*|_|`|~~)(.+?)\1/g, '$2')
+  .replace(/\s+#+\s*$/, '') // Closing hashes of ATX headings
+  .trim();
+
+/**
+ * Headings and (nested) list items or plainly indented lines; each item's parent is the
+ * nearest earlier heading of a higher level or item with less indentation.
+ */
+export const fromMarkdownOutline = (text: string): ImportedMindMap => {
+  const roots: OutlineItem[] = [];
+  const stack: { rank: number; item: OutlineItem }[] = [];
+  let inFence = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(raw)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || !raw.trim() || /^\s*([-*_])(\s*\1){2,}\s*$/.test(raw)) continue;
+
+    const heading = raw.match(/^(#{1,6})\s+(.*)$/);
+    const item = raw.replace(/\t/g, '    ').match(/^(\s*)(?:>\s*)?(?:(?:[-*+]|\d+[.)])\s+)?(.*)$/)!;
+    // Headings rank above every list item; items rank by indentation
+    const rank = heading ? heading[1].length : 10 + item[1].length;
+    const label = stripInlineMarkdown(heading ? heading[2] : item[2]);
+    if (!label) continue;
+
+    while (stack.length && stack[stack.length - 1].rank >= rank) stack.pop();
+    const entry = { label, children: [] };
+    if (stack.length) stack[stack.length - 1].item.children.push(entry);
+    else roots.push(entry);
+    stack.push({ rank, item: entry });
+  }
+  return fromOutline(roots);
+};
+
+const IMPORTERS: Record<string, (text: string) => ImportedMindMap> = {
+  json: fromMindMapJson,
+  graphml: fromGraphML,
+  opml: fromOpml,
+  mermaid: fromMermaid,
+  markdown: fromMarkdownOutline,
+};
+
+// The extension decides, with a look at the content for ambiguous ones like .xml and .txt
+const detectFormat = (fileName: string, text: string): keyof typeof IMPORTERS => {
+  const ext = fileName.toLowerCase().split('.').pop() || '';
+  if (ext === 'json') return 'json';
+  if (ext === 'graphml') return 'graphml';
+  if (ext === 'opml') return 'opml';
+  if (ext === 'mmd' || ext === 'mermaid') return 'mermaid';
+  const head = text.trimStart().slice(0, 500);
+  if (head.startsWith('{')) return 'json';
+  if (/<graphml[\s>]/.test(head)) return 'graphml';
+  if (/<opml[\s>]/.test(head)) return 'opml';
+  if (/^(%%.*\n\s*)*(graph|flowchart)\b/.test(head)) return 'mermaid';
+  return 'markdown';
+};
+
+export const importMindMap = (fileName: string, text: string): ImportedMindMap => {
+  let imported: ImportedMindMap;
+  try {
+    imported = IMPORTERS[detectFormat(fileName, text)](text);
+  } catch (err: any) {
+    throw new MindMapImportError(fileName, err.message);
+  }
+  if (imported.data.nodes.length === 0) throw new MindMapImportError(fileName, 'No nodes found.');
+  return imported;
+};
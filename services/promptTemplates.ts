@@ -0,0 +1,109 @@
+import { AgentConfig, PromptTemplate, PromptVariable } from "../types";
+
+// `{{audience}}`; agent references (`{{agent:Name}}`) contain a colon and never match
+const VARIABLE_RE = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+export class PromptVariableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptVariableError';
+  }
+}
+
+export const findTemplateVariables = (prompt: string): string[] =>
+  [...new Set([...prompt.matchAll(VARIABLE_RE)].map(m => m[1]))];
+
+// Variables used by the prompt, typed from `definitions` where available and plain text otherwise
+export const describeVariables = (prompt: string, definitions: PromptVariable[] = []): PromptVariable[] =>
+  findTemplateVariables(prompt).map(name =>
+    definitions.find(d => d.name === name) || { name, type: 'text', required: true });
+
+export const defaultVariableValues = (variables: PromptVariable[]): Record<string, string> =>
+  Object.fromEntries(variables.map(v => [v.name, v.defaultValue ?? '']));
+
+// Returns one message per missing or malformed value; empty when the prompt can be filled
+export const validateVariableValues = (variables: PromptVariable[], values: Record<string, string>): string[] => {
+  const errors: string[] = [];
+  for (const variable of variables) {
+    const label = variable.label || variable.name;
+    const value = (values[variable.name] ?? '').trim();
+    if (!value) {
+      if (variable.required) errors.push(`${label} is required`);
+      continue;
+    }
+    if (variable.type === 'number' && Number.isNaN(Number(value))) errors.push(`${label} must be a number`);
+    if (variable.type === 'select' && variable.options && !variable.options.includes(value)) {
+      errors.push(`${label} must be one of ${variable.options.join(', ')}`);
+    }
+  }
+  return errors;
+};
+
+export const fillTemplate = (prompt: string, values: Record<string, string>): string =>
+  prompt.replace(VARIABLE_RE, (_match, name) => values[name] ?? '');
+
+// The agent's prompt with its variables filled in; throws PromptVariableError when values are invalid
+export const renderAgentPrompt = (agent: AgentConfig): string => {
+  const values = agent.variableValues || {};
+  const errors = validateVariableValues(describeVariables(agent.prompt, agent.variables), values);
+  if (errors.length > 0) throw new PromptVariableError(`"${agent.name}": ${errors.join('; ')}`);
+  return fillTemplate(agent.prompt, values);
+};
+
+// Agent fields set when a template is applied; existing values are kept where the variable still exists
+export const applyTemplate = (agent: AgentConfig, template: PromptTemplate): Partial<AgentConfig> => ({
+  prompt: template.prompt,
+  templateId: template.id,
+  templateVersion: template.version,
+  variables: template.variables,
+  variableValues: { ...defaultVariableValues(template.variables), ...agent.variableValues }
+});
+
+/**
+ * Adds or updates a user template. Saving changed content under an existing name creates a
+ * new version and keeps the previous one in the history.
+ */
+export const saveTemplate = (
+  templates: PromptTemplate[],
+  name: string,
+  prompt: string,
+  variables: PromptVariable[],
+  description?: string
+): { templates: PromptTemplate[]; saved: PromptTemplate } => {
+  const existing = templates.find(t => !t.builtIn && t.name === name);
+  if (!existing) {
+    const saved: PromptTemplate = { id: `user-${Date.now()}`, name, description, version: 1, prompt, variables, savedAt: Date.now() };
+    return { templates: [...templates, saved], saved };
+  }
+  if (existing.prompt === prompt && JSON.stringify(existing.variables) === JSON.stringify(variables)) {
+    return { templates, saved: existing };
+  }
+  const saved: PromptTemplate = {
+    ...existing,
+    description: description ?? existing.description,
+    version: existing.version + 1,
+    prompt,
+    variables,
+    savedAt: Date.now(),
+    history: [
+      ...(existing.history || []),
+      { version: existing.version, prompt: existing.prompt, variables: existing.variables, savedAt: existing.savedAt ?? Date.now() }
+    ]
+  };
+  return { templates: templates.map(t => t.id === existing.id ? saved : t), saved };
+};
+
+/**
+ * Makes an earlier version of a user template current again. It is saved as a new version,
+ * so the version it replaces stays in the history and the restore can itself be undone.
+ */
+export const restoreTemplateVersion = (
+  templates: PromptTemplate[],
+  templateId: string,
+  version: number
+): { templates: PromptTemplate[]; saved: PromptTemplate } | null => {
+  const template = templates.find(t => t.id === templateId && !t.builtIn);
+  const earlier = template?.history?.find(v => v.version === version);
+  if (!template || !earlier) return null;
+  return saveTemplate(templates, template.name, earlier.prompt, earlier.variables);
+};
@@ -0,0 +1,92 @@
+import { AgentConfig, WorkspaceDocument } from "../types";
+import { agentGenerationSettings } from "./geminiService";
+import { selectAgentDocuments } from "./documents";
+import { renderMarkdown } from "./markdown";
+import { sha256Hex } from "./responseCache";
+
+export interface AnalysisReport {
+  title: string;
+  documents: WorkspaceDocument[];
+  agents: AgentConfig[];
+}
+
+// A code fence longer than any backtick run inside the content, so it cannot be closed early
+const fence = (content: string, lang = '') => {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${lang}\n${content}\n${ticks}`;
+};
+
+const countWords = (text: string) => (text.match(/\S+/g) || []).length;
+
+const describeDocument = async (doc: WorkspaceDocument) => [
+  `### ${doc.name}`,
+  '',
+  `| | |`,
+  `|---|---|`,
+  `| File | ${doc.fileName || '(pasted text)'} |`,
+  `| Tags | ${doc.tags.join(', ') || '—'} |`,
+  `| Characters | ${doc.text.length} |`,
+  `| Words | ${countWords(doc.text)} |`,
+  `| SHA-256 | \`${(await sha256Hex(doc.text)).slice(0, 16)}\` |`,
+].join('\n');
+
+const describeAgent = (agent: AgentConfig, documents: WorkspaceDocument[]) => {
+  const settings = Object.fromEntries(Object.entries(agentGenerationSettings(agent)).filter(([, v]) => v !== undefined));
+  const lines = [
+    `## ${agent.name}`,
+    '',
+    `| | |`,
+    `|---|---|`,
+    `| Model | ${agent.provider} / ${agent.model} |`,
+    `| Context | ${selectAgentDocuments(agent, documents).map(doc => doc.name).join(', ') || '—'} |`,
+    `| Output | ${agent.outputMode === 'json' ? 'Structured JSON' : 'Free text'} |`,
+    `| Settings | \`${JSON.stringify(settings)}\` |`,
+  ];
+  if (agent.usage && agent.usage.calls > 0) {
+    lines.push(`| Usage | ${agent.usage.inputTokens} in, ${agent.usage.outputTokens} out, $${agent.usage.cost.toFixed(4)} |`);
+  }
+  lines.push('', '**Prompt**', '', fence(agent.prompt || '(empty)', 'text'), '', '**Output**', '');
+  if (!agent.output) lines.push('_Not run yet._');
+  else if (agent.jsonOutput !== undefined) lines.push(fence(JSON.stringify(agent.jsonOutput, null, 2), 'json'));
+  else lines.push(agent.output);
+  if (agent.incomplete) lines.push('', '_Output is incomplete: the run was stopped._');
+  return lines.join('\n');
+};
+
+export const buildMarkdownReport = async (report: AnalysisReport): Promise<string> => [
+  `# ${report.title}`,
+  '',
+  `Generated ${new Date().toLocaleString()}`,
+  '',
+  '## Documents',
+  '',
+  ...(await Promise.all(report.documents.map(describeDocument))).flatMap(section => [section, '']),
+  ...report.agents.flatMap(agent => [describeAgent(agent, report.documents), '']),
+].join('\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// A single file that opens in any browser without the app or network access
+export const buildHtmlReport = async (report: AnalysisReport): Promise<string> => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; color: #1f2937; }
+  h1, h2 { font-family: Georgia, serif; }
+  h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: .25rem; margin-top: 2.5rem; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #e5e7eb; padding: .35rem .6rem; text-align: left; vertical-align: top; }
+  pre { background: #f3f4f6; padding: 1rem; border-radius: 8px; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, monospace; font-size: .9em; }
+  blockquote { border-left: 4px solid #d1d5db; margin: 0; padding-left: 1rem; color: #4b5563; }
+</style>
+</head>
+<body>
+${renderMarkdown(await buildMarkdownReport(report))}
+</body>
+</html>
+`;
@@ -0,0 +1,115 @@
+import { SchedulerConfig } from "../types";
+import { CancelledError, classifyError, LLMError, TimeoutError } from "./errors";
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  concurrency: 2,
+  maxRetries: 3,
+  timeoutSeconds: 120,
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+// A task receives a signal that fires on user cancel or timeout, and a callback
+// to report activity (streamed tokens) so long streams are not timed out
+export type ScheduledTask<T> = (signal: AbortSignal, keepAlive: () => void) => Promise<T>;
+
+let config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG;
+let active = 0;
+const waiting: (() => void)[] = [];
+
+export const configureScheduler = (next: SchedulerConfig) => {
+  config = next;
+  drain();
+};
+
+const drain = () => {
+  while (active < Math.max(1, config.concurrency) && waiting.length > 0) {
+    active++;
+    waiting.shift()!();
+  }
+};
+
+const acquireSlot = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const start = () => {
+    signal?.removeEventListener('abort', cancel);
+    resolve();
+  };
+  const cancel = () => {
+    const idx = waiting.indexOf(start);
+    if (idx >= 0) waiting.splice(idx, 1);
+    reject(new CancelledError('The request was cancelled.'));
+  };
+  if (signal?.aborted) return cancel();
+  signal?.addEventListener('abort', cancel, { once: true });
+  waiting.push(start);
+  drain();
+});
+
+const releaseSlot = () => {
+  active--;
+  drain();
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError('The request was cancelled.'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with an inactivity timeout layered on top of the caller's signal
+const attempt = async <T>(task: ScheduledTask<T>, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const keepAlive = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, config.timeoutSeconds * 1000);
+  };
+  keepAlive();
+
+  try {
+    return await task(controller.signal, keepAlive);
+  } catch (err) {
+    if (timedOut) throw new TimeoutError(`No response within ${config.timeoutSeconds}s.`);
+    if (signal?.aborted) throw new CancelledError('The request was cancelled.');
+    throw classifyError(err);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Queues a model request behind the configured concurrency limit and retries
+ * rate-limit, 5xx, network and timeout failures with exponential backoff.
+ */
+export const schedule = async <T>(task: ScheduledTask<T>, signal?: AbortSignal): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    await acquireSlot(signal);
+    let error: LLMError;
+    try {
+      return await attempt(task, signal);
+    } catch (err) {
+      error = err as LLMError;
+    } finally {
+      releaseSlot();
+    }
+
+    if (!error.retryable || retry >= config.maxRetries) throw error;
+    const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** retry) * (0.75 + Math.random() * 0.5);
+    await sleep(delay, signal);
+  }
+};
@@ -0,0 +1,119 @@
+import { CacheConfig, GenerationSettings } from "../types";
+import { createDbOpener, request } from "./idb";
+
+export interface CacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  promptPreview: string;
+  response: string;
+  bytes: number;
+  createdAt: number;
+  lastAccessedAt: number;
+  hits: number;
+}
+
+// Everything that influences the model output; hashed into the cache key
+export interface CacheKeyParts {
+  provider: string;
+  model: string;
+  prompt: string;
+  generation: GenerationSettings;
+  jsonSchema?: object;
+  baseUrl?: string; // OpenAI-compatible endpoints can serve different models under the same id
+}
+
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  enabled: true,
+  maxMegabytes: 50,
+};
+
+const DB_NAME = 'florai-cache';
+const STORE = 'responses';
+
+let config: CacheConfig = DEFAULT_CACHE_CONFIG;
+
+export const configureCache = (next: CacheConfig) => {
+  config = next;
+};
+
+export const isCacheEnabled = () => config.enabled && typeof indexedDB !== 'undefined';
+
+const openDb = createDbOpener(DB_NAME, 1, db => {
+  const store = db.createObjectStore(STORE, { keyPath: 'key' });
+  store.createIndex('lastAccessedAt', 'lastAccessedAt');
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>) => {
+  const db = await openDb();
+  return fn(db.transaction(STORE, mode).objectStore(STORE));
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const hashCacheKey = async (parts: CacheKeyParts): Promise<string> => {
+  // Sorted, defined keys so that the same settings always serialize identically
+  const generation = (Object.keys(parts.generation) as (keyof GenerationSettings)[])
+    .filter(key => parts.generation[key] !== undefined)
+    .sort()
+    .map(key => [key, parts.generation[key]]);
+  // Only present for OpenAI-compatible endpoints, so existing Gemini keys stay valid
+  const endpoint = parts.baseUrl ? [parts.baseUrl] : [];
+  return sha256Hex(JSON.stringify([
+    parts.provider, parts.model, parts.prompt, generation, parts.jsonSchema ?? null, ...endpoint
+  ]));
+};
+
+export const getCachedResponse = async (key: string): Promise<string | null> => {
+  const entry = await withStore('readonly', store => request<CacheEntry | undefined>(store.get(key)));
+  if (!entry) return null;
+  // Touch the entry so LRU eviction keeps recently used responses
+  await withStore('readwrite', store => request(store.put({ ...entry, lastAccessedAt: Date.now(), hits: entry.hits + 1 })));
+  return entry.response;
+};
+
+export const putCachedResponse = async (key: string, parts: CacheKeyParts, response: string) => {
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key,
+    provider: parts.provider,
+    model: parts.model,
+    promptPreview: parts.prompt.slice(0, 200),
+    response,
+    bytes: (parts.prompt.length + response.length) * 2, // UTF-16 estimate
+    createdAt: now,
+    lastAccessedAt: now,
+    hits: 0,
+  };
+  await withStore('readwrite', store => request(store.put(entry)));
+  await evictToLimit();
+};
+
+export const listCacheEntries = (): Promise<CacheEntry[]> =>
+  withStore('readonly', store => request<CacheEntry[]>(store.getAll()));
+
+export const deleteCacheEntry = (key: string) =>
+  withStore('readwrite', store => request(store.delete(key)));
+
+export const clearCache = () =>
+  withStore('readwrite', store => request(store.clear()));
+
+// Drops least recently used entries until the cache fits in the configured size
+const evictToLimit = async () => {
+  const limit = config.maxMegabytes * 1024 * 1024;
+  const entries = await listCacheEntries();
+  let total = entries.reduce((sum, e) => sum + e.bytes, 0);
+  if (total <= limit) return;
+
+  entries.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+  await withStore('readwrite', async store => {
+    for (const entry of entries) {
+      if (total <= limit) break;
+      store.delete(entry.key);
+      total -= entry.bytes;
+    }
+  });
+};
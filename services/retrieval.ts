@@ -0,0 +1,109 @@
+import { DocumentChatConfig, DocumentPassage, ModelTarget, ProviderSettings, WorkspaceDocument } from "../types";
+import { chunkText } from "./chunking";
+import { cosineSimilarity, embedCached } from "./embeddings";
+
+export const DEFAULT_CHAT_CONFIG: DocumentChatConfig = {
+  topK: 6,
+  useEmbeddings: false,
+};
+
+const PASSAGE_CHARS = 1200;
+const PASSAGE_OVERLAP = 150;
+
+// Upper bound of the source text one question sends to the model, for cost estimates
+export const maxRetrievedChars = (config: DocumentChatConfig) => config.topK * PASSAGE_CHARS;
+
+// Okapi BM25 parameters; RRF_K damps the reciprocal rank fusion of BM25 and embedding rankings
+const K1 = 1.2;
+const B = 0.75;
+const RRF_K = 60;
+
+const STOPWORDS = new Set(
+  'a an and are as at be but by can do does did for from had has have how i if in into is it its of on or so than that the their then there these they this to was were what when where which who why will with'.split(' ')
+);
+const CJK_RE = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+
+// Words for alphabetic scripts; character bigrams for CJK, which has no spaces between words
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const word of text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    if (CJK_RE.test(word)) {
+      const chars = [...word];
+      if (chars.length === 1) tokens.push(word);
+      for (let i = 0; i < chars.length - 1; i++) tokens.push(chars[i] + chars[i + 1]);
+    } else if (!STOPWORDS.has(word)) {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+};
+
+// Overlapping passages along paragraph boundaries, trimmed without losing their offsets
+export const buildPassages = (documents: WorkspaceDocument[]): DocumentPassage[] =>
+  documents.flatMap(doc => chunkText(doc.text, { maxChars: PASSAGE_CHARS, overlap: PASSAGE_OVERLAP }).flatMap(chunk => {
+    const lead = chunk.text.length - chunk.text.trimStart().length;
+    const text = chunk.text.trim();
+    if (!text) return [];
+    const start = chunk.start + lead;
+    return [{ documentId: doc.id, documentName: doc.name, text, start, end: start + text.length }];
+  }));
+
+interface Bm25Index {
+  termFreqs: Map<string, number>[];
+  lengths: number[];
+  avgLength: number;
+  docFreq: Map<string, number>;
+}
+
+const buildIndex = (passages: DocumentPassage[]): Bm25Index => {
+  const docFreq = new Map<string, number>();
+  const termFreqs = passages.map(p => {
+    const freqs = new Map<string, number>();
+    tokenize(p.text).forEach(token => freqs.set(token, (freqs.get(token) || 0) + 1));
+    freqs.forEach((_, token) => docFreq.set(token, (docFreq.get(token) || 0) + 1));
+    return freqs;
+  });
+  const lengths = termFreqs.map(freqs => [...freqs.values()].reduce((a, b) => a + b, 0));
+  const avgLength = lengths.reduce((a, b) => a + b, 0) / Math.max(lengths.length, 1) || 1;
+  return { termFreqs, lengths, avgLength, docFreq };
+};
+
+const bm25Scores = (index: Bm25Index, query: string): number[] => {
+  const n = index.termFreqs.length;
+  const terms = [...new Set(tokenize(query))];
+  return index.termFreqs.map((freqs, i) => terms.reduce((score, term) => {
+    const tf = freqs.get(term) || 0;
+    if (tf === 0) return score;
+    const df = index.docFreq.get(term) || 0;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    return score + idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * index.lengths[i] / index.avgLength));
+  }, 0));
+};
+
+// Indexes of the ranked items, best first, skipping non-positive scores
+const rankBy = (scores: number[]) =>
+  scores.map((score, i) => ({ score, i })).filter(s => s.score > 0).sort((a, b) => b.score - a.score).map(s => s.i);
+
+/**
+ * Finds the passages most relevant to a question. BM25 alone by default; with embeddings the
+ * two rankings are merged by reciprocal rank fusion so exact terms and paraphrases both count.
+ */
+export const retrievePassages = async (
+  question: string,
+  documents: WorkspaceDocument[],
+  config: DocumentChatConfig,
+  embeddingModel: ModelTarget,
+  settings: ProviderSettings,
+  signal?: AbortSignal
+): Promise<DocumentPassage[]> => {
+  const passages = buildPassages(documents);
+  if (passages.length === 0) return [];
+  const lexical = rankBy(bm25Scores(buildIndex(passages), question));
+  if (!config.useEmbeddings) return lexical.slice(0, config.topK).map(i => passages[i]);
+
+  const [query, ...vectors] = await embedCached(embeddingModel, settings, [question, ...passages.map(p => p.text)], 'chat', signal);
+  const semantic = rankBy(vectors.map(v => cosineSimilarity(query, v)));
+  const fused = new Map<number, number>();
+  [lexical, semantic].forEach(ranking => ranking.forEach((i, rank) => fused.set(i, (fused.get(i) || 0) + 1 / (RRF_K + rank + 1))));
+  return [...fused.entries()].sort((a, b) => b[1] - a[1]).slice(0, config.topK).map(([i]) => passages[i]);
+};
@@ -0,0 +1,37 @@
+import { AgentRun } from "../types";
+import { sha256Hex } from "./responseCache";
+
+// Session-wide record of agent runs, newest last; lives in memory until the page reloads
+const MAX_RUNS_PER_AGENT = 50;
+
+let runs: AgentRun[] = [];
+let nextId = 0; // Runs of several agents can start in the same millisecond
+const listeners = new Set<(runs: AgentRun[]) => void>();
+
+const notify = () => listeners.forEach(listener => listener(runs));
+
+export const recordRun = async (run: Omit<AgentRun, 'id' | 'contextHash'>, context: string): Promise<AgentRun> => {
+  const record: AgentRun = { ...run, id: `${run.timestamp}-${nextId++}`, contextHash: await sha256Hex(context) };
+  const forAgent = runs.filter(r => r.agentId === run.agentId);
+  // Drop the agent's oldest runs beyond the cap
+  const dropped = new Set(forAgent.slice(0, Math.max(0, forAgent.length + 1 - MAX_RUNS_PER_AGENT)).map(r => r.id));
+  runs = [...runs.filter(r => !dropped.has(r.id)), record];
+  notify();
+  return record;
+};
+
+export const getRuns = () => runs;
+
+export const getAgentRuns = (agentId: number) => runs.filter(r => r.agentId === agentId);
+
+export const clearAgentRuns = (agentId: number) => {
+  runs = runs.filter(r => r.agentId !== agentId);
+  notify();
+};
+
+export const subscribeRunHistory = (listener: (runs: AgentRun[]) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,50 @@
+import { ModelTarget, ProviderSettings } from "../types";
+import { cosineSimilarity, embedCached } from "./embeddings";
+
+// Cosine similarity below which a paragraph counts as having no counterpart; embedding
+// models differ in how high unrelated text scores, so the view lets users adjust it
+export const DEFAULT_UNIQUE_THRESHOLD = 0.75;
+
+export interface SemanticMatrix {
+  before: string[]; // Paragraphs of each document
+  after: string[];
+  scores: number[][]; // scores[i][j]: before[i] against after[j]
+}
+
+// A matrix computed for a pair of workspace documents
+export interface DocumentSimilarity extends SemanticMatrix {
+  beforeId: string;
+  afterId: string;
+}
+
+export interface ParagraphMatch {
+  index: number;
+  match: number; // Nearest paragraph in the other document, -1 when it is empty
+  score: number;
+  unique: boolean;
+}
+
+export const buildSemanticMatrix = async (
+  before: string[],
+  after: string[],
+  target: ModelTarget,
+  settings: ProviderSettings,
+  signal?: AbortSignal
+): Promise<SemanticMatrix> => {
+  const vectors = await embedCached(target, settings, [...before, ...after], 'comparison', signal);
+  const left = vectors.slice(0, before.length);
+  const right = vectors.slice(before.length);
+  return { before, after, scores: left.map(a => right.map(b => cosineSimilarity(a, b))) };
+};
+
+const nearest = (scores: number[], index: number, threshold: number): ParagraphMatch => {
+  const match = scores.reduce((best, score, j) => best < 0 || score > scores[best] ? j : best, -1);
+  const score = match < 0 ? 0 : scores[match];
+  return { index, match, score, unique: score < threshold };
+};
+
+// Pairs every paragraph of both documents with its closest counterpart in the other one
+export const bestMatches = (matrix: SemanticMatrix, threshold: number) => ({
+  before: matrix.scores.map((row, i) => nearest(row, i, threshold)),
+  after: matrix.after.map((_, j) => nearest(matrix.scores.map(row => row[j]), j, threshold)),
+});
@@ -0,0 +1,38 @@
+import { SourceSnippet } from "../types";
+
+// Evidence kept per node or link; the first quotes a model gives are usually the most telling
+export const MAX_SNIPPETS = 5;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Models re-flow whitespace and straighten or curl quotes when they copy a passage
+const tolerantPattern = (quote: string) => quote.trim().split(/\s+/)
+  .map(word => escapeRegExp(word).replace(/['‘’]/g, "['‘’]").replace(/["“”]/g, '["“”]'))
+  .join('\\s+');
+
+/**
+ * Finds a quoted passage in the text, exactly or up to case, whitespace and quote style.
+ * The snippet carries the text as it appears there; null when the quote is not in it.
+ */
+export const locateSnippet = (text: string, quote: string, offset = 0): SourceSnippet | null => {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+  const exact = text.indexOf(trimmed);
+  if (exact >= 0) return { text: trimmed, start: offset + exact, end: offset + exact + trimmed.length };
+  const match = new RegExp(tolerantPattern(trimmed), 'i').exec(text);
+  return match ? { text: match[0], start: offset + match.index, end: offset + match.index + match[0].length } : null;
+};
+
+// Where a snippet sits in the text now; the input may have been edited or replaced since
+export const resolveSnippet = (text: string, snippet: SourceSnippet): SourceSnippet | null =>
+  text.slice(snippet.start, snippet.end) === snippet.text ? snippet : locateSnippet(text, snippet.text);
+
+// Union in order, without repeats, capped at MAX_SNIPPETS
+export const mergeSnippets = (...lists: (SourceSnippet[] | undefined)[]): SourceSnippet[] | undefined => {
+  const merged: SourceSnippet[] = [];
+  for (const snippet of lists.flatMap(list => list || [])) {
+    if (merged.length >= MAX_SNIPPETS) break;
+    if (!merged.some(s => s.start === snippet.start && s.end === snippet.end)) merged.push(snippet);
+  }
+  return merged.length ? merged : undefined;
+};
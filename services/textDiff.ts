@@ -0,0 +1,96 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// One element of the edit script between two sequences
+export interface DiffOp {
+  type: DiffPart['type'];
+  value: string;
+}
+
+// Beyond this many edits the middle section is reported as one replacement
+const MAX_EDITS = 3000;
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+};
+
+// Myers' O((N+M)D) shortest edit script; returns null when the sequences differ too much
+const myers = (a: string[], b: string[]): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, MAX_EDITS); d++) {
+    // Keep the furthest points of the previous step for k in [-d, d]
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace, d);
+    }
+  }
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[], edits: number): DiffOp[] => {
+  const reversed: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = edits; d > 0; d--) {
+    const prev = trace[d];
+    const at = (k: number) => prev[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      y--;
+      reversed.push({ type: 'equal', value: a[--x] });
+    }
+    if (x === prevX) reversed.push({ type: 'added', value: b[--y] });
+    else reversed.push({ type: 'removed', value: a[--x] });
+  }
+  while (x > 0) reversed.push({ type: 'equal', value: a[--x] });
+  return reversed.reverse();
+};
+
+// Edit script between two sequences of tokens, paragraphs or lines
+export const diffSequences = (a: string[], b: string[]): DiffOp[] => {
+  // Common prefix and suffix are cheap to strip and keep the edit search small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const midA = a.slice(start, a.length - end);
+  const midB = b.slice(start, b.length - end);
+  const middle = myers(midA, midB) || [
+    ...midA.map(value => ({ type: 'removed' as const, value })),
+    ...midB.map(value => ({ type: 'added' as const, value }))
+  ];
+  return [
+    ...a.slice(0, start).map(value => ({ type: 'equal' as const, value })),
+    ...middle,
+    ...a.slice(a.length - end).map(value => ({ type: 'equal' as const, value }))
+  ];
+};
+
+// Word-level diff; whitespace runs are tokens too so the parts join back into the inputs
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  diffSequences(tokenize(before), tokenize(after)).forEach(op => push(parts, op.type, op.value));
+  return parts;
+};
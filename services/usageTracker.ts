@@ -0,0 +1,70 @@
+import { LLMProvider, ModelPrices, ModelTarget, TokenUsage, UsageFeature, UsageRecord, UsageSummary } from "../types";
+import { DEFAULT_MODEL_PRICES } from "../constants";
+
+// Session-wide ledger of every model call; lives in memory until the page reloads
+let records: UsageRecord[] = [];
+let prices: ModelPrices = DEFAULT_MODEL_PRICES;
+const listeners = new Set<(records: UsageRecord[]) => void>();
+
+export const EMPTY_USAGE: UsageSummary = { inputTokens: 0, outputTokens: 0, thinkingTokens: 0, cost: 0, calls: 0 };
+
+export const configurePrices = (next: ModelPrices) => {
+  prices = next;
+};
+
+// Thinking tokens are billed at the output rate; unknown models (e.g. local ones) are free
+export const costOf = (provider: LLMProvider, model: string, usage: TokenUsage) => {
+  const price = prices[provider]?.[model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.inputPerMillion
+    + (usage.outputTokens + usage.thinkingTokens) * price.outputPerMillion) / 1_000_000;
+};
+
+export const recordUsage = (feature: UsageFeature, provider: LLMProvider, model: string, usage: TokenUsage): UsageRecord => {
+  const record: UsageRecord = {
+    id: `${Date.now()}-${records.length}`,
+    feature,
+    provider,
+    model,
+    ...usage,
+    cost: costOf(provider, model, usage),
+    timestamp: Date.now(),
+  };
+  records = [...records, record];
+  listeners.forEach(listener => listener(records));
+  return record;
+};
+
+export const resetUsage = () => {
+  records = [];
+  listeners.forEach(listener => listener(records));
+};
+
+export const getUsageRecords = () => records;
+
+export const subscribeUsage = (listener: (records: UsageRecord[]) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const addUsage = (summary: UsageSummary, usage: TokenUsage & { cost: number }): UsageSummary => ({
+  inputTokens: summary.inputTokens + usage.inputTokens,
+  outputTokens: summary.outputTokens + usage.outputTokens,
+  thinkingTokens: summary.thinkingTokens + usage.thinkingTokens,
+  cost: summary.cost + usage.cost,
+  calls: summary.calls + 1,
+});
+
+export const summarizeUsage = (list: UsageRecord[]): UsageSummary => list.reduce(addUsage, EMPTY_USAGE);
+
+// Roughly four characters per token; providers report exact usage after a call
+export const estimateTokens = (chars: number) => Math.ceil(chars / 4);
+
+/**
+ * Upper-bound cost of a run before it starts: the estimated input tokens and the
+ * full output allowance.
+ */
+export const estimateRunCost = (target: ModelTarget, inputChars: number, maxOutputTokens: number) =>
+  costOf(target.provider, target.model, { inputTokens: estimateTokens(inputChars), outputTokens: maxOutputTokens, thinkingTokens: 0 });
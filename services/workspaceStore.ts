@@ -0,0 +1,22 @@
+import { Workspace } from "../types";
+import { createDbOpener, request } from "./idb";
+
+// The workspace is a single record; IndexedDB rather than localStorage because documents can be large
+const DB_NAME = 'florai-workspace';
+const STORE = 'workspace';
+const KEY = 'current';
+
+const openDb = createDbOpener(DB_NAME, 1, db => db.createObjectStore(STORE));
+
+export const loadWorkspace = async (): Promise<Workspace | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  const db = await openDb();
+  const saved = await request(db.transaction(STORE, 'readonly').objectStore(STORE).get(KEY));
+  return saved && Array.isArray(saved.documents) ? { documents: saved.documents, chat: saved.chat || [] } : null;
+};
+
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+  const db = await openDb();
+  await request(db.transaction(STORE, 'readwrite').objectStore(STORE).put(workspace, KEY));
+};
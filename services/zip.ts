@@ -0,0 +1,59 @@
+// Minimal ZIP reader for DOCX and EPUB containers: stored and deflated entries only,
+// inflated with the browser's DecompressionStream
+
+export interface ZipArchive {
+  names: string[];
+  readText: (name: string) => Promise<string | null>; // null when the entry does not exist
+}
+
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const CENTRAL_DIR_ENTRY = 0x02014b50;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const openZip = (buffer: ArrayBuffer): ZipArchive => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP archive');
+
+  const entries = new Map<string, { method: number; size: number; offset: number }>();
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  for (let i = 0; i < count && view.getUint32(pos, true) === CENTRAL_DIR_ENTRY; i++) {
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    entries.set(decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength)), {
+      method: view.getUint16(pos + 10, true),
+      size: view.getUint32(pos + 20, true),
+      offset: view.getUint32(pos + 42, true),
+    });
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const readText = async (name: string) => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    // The local header repeats name and extra field with lengths that may differ from the central one
+    const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+    const data = bytes.subarray(start, start + entry.size);
+    if (entry.method === 0) return decoder.decode(data);
+    if (entry.method === 8) return decoder.decode(await inflateRaw(data));
+    throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+  };
+
+  return { names: [...entries.keys()], readText };
+};
@@ -6,16 +6,28 @@ export interface FlowerTheme {
   icon: string;
 }
 
+// A verbatim quote from the text a mind map was generated from
+export interface SourceSnippet {
+  text: string;
+  start: number; // Offsets into that input text
+  end: number;
+}
+
 export interface MindMapNode {
   id: string;
   group?: number;
   val?: number;
+  pinned?: { x: number; y: number }; // Fixed position set by the user, overriding the layout
+  description?: string; // Why the node is in the map
+  sources?: SourceSnippet[];
 }
 
 export interface MindMapLink {
   source: string;
   target: string;
   value: number;
+  label?: string; // The relationship, e.g. "is a subfield of"
+  sources?: SourceSnippet[];
 }
 
 export interface MindMapData {
@@ -23,27 +35,313 @@ export interface MindMapData {
   links: MindMapLink[];
 }
 
+export type MindMapLayout = 'force' | 'radial' | 'tree' | 'cluster';
+
+export interface ChunkProgress {
+  completed: number;
+  total: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+export type UsageFeature = 'mindmap' | 'agents' | 'comparison' | 'smartnote' | 'chat';
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  feature: UsageFeature;
+  provider: string;
+  model: string;
+  cost: number; // USD
+  timestamp: number;
+}
+
+export interface UsageSummary extends TokenUsage {
+  cost: number; // USD
+  calls: number;
+}
+
+// USD per one million tokens
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// By provider, then model id: an OpenAI-compatible endpoint may serve a model under a Gemini id
+export type ModelPrices = Partial<Record<LLMProvider, Record<string, ModelPrice>>>;
+
+// Sampling and reasoning parameters sent with a model call; unset fields use the model default
+export interface GenerationSettings {
+  maxTokens?: number;
+  temperature?: number;
+  systemInstruction?: string;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+  seed?: number;
+  thinkingBudget?: number; // Tokens; 0 disables thinking, -1 lets the model decide
+}
+
+// The subset of JSON Schema used for structured agent output
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+}
+
+export type PromptVariableType = 'text' | 'multiline' | 'number' | 'select';
+
+// A `{{name}}` placeholder in a prompt, filled in before the agent runs
+export interface PromptVariable {
+  name: string;
+  label?: string;
+  type: PromptVariableType;
+  options?: string[]; // Choices for 'select'
+  defaultValue?: string;
+  required?: boolean;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  prompt: string;
+  variables: PromptVariable[];
+  savedAt: number;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  prompt: string;
+  variables: PromptVariable[];
+  builtIn?: boolean;
+  savedAt?: number;
+  history?: PromptTemplateVersion[]; // Earlier versions, oldest first
+}
+
+export interface ModelComparisonConfig {
+  enabled: boolean; // Runs fan out to `targets` instead of the agent's own model
+  targets: ModelTarget[];
+  judge?: ModelTarget; // Scores the outputs when set
+  rubric?: string;
+}
+
+export interface ModelComparisonEntry {
+  target: ModelTarget;
+  status: 'running' | 'done' | 'failed';
+  output: string;
+  latencyMs?: number;
+  usage: UsageSummary;
+  error?: string;
+}
+
+export interface JudgeScore {
+  target: ModelTarget;
+  score: number; // 0 to 10
+  rationale: string;
+}
+
+export interface JudgeVerdict {
+  scores: JudgeScore[];
+  winner?: ModelTarget;
+  summary: string;
+}
+
+export interface ModelComparison {
+  entries: ModelComparisonEntry[];
+  judging?: boolean;
+  verdict?: JudgeVerdict;
+  judgeError?: string;
+  chosen?: ModelTarget; // The entry whose output became the agent's output
+}
+
+export interface WorkspaceDocument {
+  id: string;
+  name: string;
+  text: string;
+  tags: string[];
+  fileName?: string; // Set when the text was loaded from a file
+}
+
+// A retrieved span of a workspace document; offsets index into the document text
+export interface DocumentPassage {
+  documentId: string;
+  documentName: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  passages?: DocumentPassage[]; // Sources given to the model; citation [n] refers to passages[n - 1]
+  error?: string;
+  createdAt: number;
+}
+
+// Saved between sessions so documents and the conversation about them survive a reload
+export interface Workspace {
+  documents: WorkspaceDocument[];
+  chat: ChatMessage[];
+}
+
+export interface DocumentChatConfig {
+  topK: number; // Passages retrieved per question
+  useEmbeddings: boolean; // Ranks by BM25 and embedding similarity combined
+}
+
+export type ClauseStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export type ClauseSeverity = 'none' | 'low' | 'medium' | 'high';
+
+// One aligned section pair from a structured document comparison
+export interface ClauseComparison {
+  section: string;
+  status: ClauseStatus;
+  severity: ClauseSeverity;
+  explanation: string;
+  beforeExcerpt?: string; // Verbatim text from the first document, used to locate the section
+  afterExcerpt?: string;
+}
+
+export interface DocumentNarrative {
+  beforeId: string;
+  afterId: string;
+  text: string;
+}
+
+export interface ClauseComparisonResult {
+  beforeId: string;
+  afterId: string;
+  clauses: ClauseComparison[];
+}
+
 export interface AgentConfig {
   id: number;
   name: string;
   prompt: string;
+  provider: LLMProvider;
   model: string;
   maxTokens: number;
   temperature: number;
-  contextType: 'doc1' | 'doc2' | 'both';
+  systemInstruction?: string;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+  seed?: number;
+  thinkingBudget?: number; // Tokens; 0 disables thinking, -1 lets the model decide
+  documentIds: string[]; // Documents the agent reads as context
+  documentTags?: string[]; // Also reads every document carrying one of these tags
+  templateId?: string; // Template the prompt came from
+  templateVersion?: number;
+  variables?: PromptVariable[]; // Typed definitions for the prompt's `{{name}}` placeholders
+  variableValues?: Record<string, string>;
+  outputMode?: 'text' | 'json'; // Defaults to free text
+  responseSchema?: JsonSchema; // Required shape of the output in JSON mode
+  comparison?: ModelComparisonConfig;
   output?: string;
+  jsonOutput?: unknown; // Parsed output in JSON mode
+  validationErrors?: string[]; // Schema violations left after the repair attempt
+  repairedFrom?: string[]; // Violations of the first attempt, when a repair was needed
+  incomplete?: boolean; // Output was cut short by the user stopping the run
+  bypassCache?: boolean; // Next run ignores cached responses
+  usage?: UsageSummary; // Tokens and cost of the last run
   isLoading: boolean;
 }
 
+// One completed, failed or stopped execution of an agent
+export interface AgentRun {
+  id: string;
+  agentId: number;
+  agentName: string;
+  prompt: string; // As sent, with variables and agent references filled in
+  provider: LLMProvider;
+  model: string;
+  generation: GenerationSettings;
+  outputMode: 'text' | 'json';
+  contextHash: string; // SHA-256 of the documents the agent saw
+  timestamp: number;
+  durationMs: number;
+  status: 'done' | 'failed' | 'stopped';
+  output: string;
+  error?: string;
+  usage?: UsageSummary;
+}
+
 export enum LLMProvider {
   GEMINI = 'Gemini',
-  OTHER = 'Other'
+  OTHER = 'Other' // Any OpenAI-compatible endpoint (OpenAI, Ollama, vLLM, LM Studio...)
 }
 
 export interface LLMModelInfo {
   id: string;
   name: string;
   provider: LLMProvider;
+  custom?: boolean; // Added by the user from Settings
+  contextWindow?: number; // Input + output tokens the model accepts; unknown for most custom models
+}
+
+export interface ModelTarget {
+  provider: LLMProvider;
+  model: string;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface SchedulerConfig {
+  concurrency: number; // Maximum requests in flight at once
+  maxRetries: number;
+  timeoutSeconds: number; // Inactivity timeout per attempt
+}
+
+export interface BatchConfig {
+  concurrency: number; // Agents running at once; the scheduler still caps requests
+  failFast: boolean; // Stop the batch at the first failure instead of continuing
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface BatchItemResult {
+  id: number;
+  status: BatchItemStatus;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface BatchReport {
+  startedAt: number;
+  finishedAt: number;
+  results: BatchItemResult[];
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  maxMegabytes: number; // Least recently used responses are evicted beyond this size
+}
+
+export interface ProviderSettings {
+  geminiApiKey: string | null;
+  openAICompatible: OpenAICompatibleConfig;
+  defaultModel: ModelTarget; // Used by Mind Map, Comparison and Smart Note
 }
 
 export type Language = 'en' | 'zh-TW';